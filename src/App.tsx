@@ -1,48 +1,39 @@
 
 import React, { useEffect, useMemo, useState } from "react";
+import {
+  DB_NAME, DB_VERSION, normalizeCalibrationDt, upgradeSchema,
+  STORE_AUDIT, STORE_BREAKTHROUGH_TESTS, STORE_CALENDAR, STORE_ELUTION_LOG, STORE_FUTURE_ORDERS, STORE_GENERATOR_MODELS, STORE_GENERATORS,
+  STORE_HOSPITALS, STORE_MODULES, STORE_ORDERS, STORE_PRODUCTS, STORE_RECURRING, STORE_RUNS, STORE_SETTINGS,
+} from "./migrations";
+import {
+  ACTIVITY_DIGITS, ACTIVITY_UNITS, activityInputValue, addDays, applyRunsToOrders, assignOrders, assignOrdersEfficientSim, availabilityForecast,
+  availableAtElute_mCi, batchKey, bundleJson, batchLabel, batchSummaries, breakthroughQcReason, breakthroughTestDue, buildOrderProcessedConfirmation,
+  daysUntilExpiry, DEFAULT_PRODUCTS, DEFAULT_SETTINGS, describeRecurrence, effectiveEfficiencyPct, EFFICIENCY_FIT_WINDOW, elutionDriftPct,
+  facilityCalendarFrom, facilityHours, facilityIssue, fitGeneratorEfficiency, formatActivity, formatActivityWithUnit, formatBreakthroughPct,
+  formatDateFriendly, formatDateTimeFriendly, formatLocal, formatNote, formatTimeLocal, formatYieldCurve, FROZEN_STATUSES, genId,
+  genOrderIdDateBased, hospitalFromRaw, inDateRange, insertOrderIncrementally, isActivityUnit, isFacilityOpen, isGeneratorExpired, isOrderFrozen,
+  latestBreakthroughTest, localDateStringFromISO, mCiToUnit, minutesBetween, modelYieldPct, nextOrderStatus,
+  normalizeDailyWear, nowLocalISO, ORDER_STATUSES, orderedActivityLabel, orderEluteInfo, orderIsFeasible, orderStatus, pad2,
+  parseLocalDateTimeYYYYMMDDTHHMM, parseLocalDateYYYYMMDD, parseYieldCurve, planMultiDay, productFor, requiredBreakdown, rescanDiff,
+  routeDeliveryRun, setDatePreserveTime, shortId, startOfWeekMonday, STRATEGY_OPTIONS, suggestOrderAlternatives, synthesisMinutes, takenOccurrences,
+  todayLocalDate, topUpRecurring, travelBetween, unitToMCi, WEEKDAY_LABELS, withOrderStatus, type ActivityUnit, type AppSettings,
+  type AssignmentStrategyId, type AssignmentTrace, type BreakthroughTest, type DeliveryRun, type ElutionLogEntry, type FacilityDay, type Generator,
+  type GeneratorModel, type Hospital, type IncrementalInsertion, type Order, type OrderStatus, type OrderStatusChange, type OrderSuggestion,
+  type PendingRescan, type PlannedDay, type PlanningContext, type Product, type RawHospital, type RecurringOrder, type SynthesisModule,
+} from "./planning";
 
 /**
  * Ga‑68 Planner — Single-file React app
  * (Upcoming shows LIVE+FUTURE, Future Save/Delete fixes, Promote to Live, Auto-Assign simulation, Short IDs)
  */
 
-// ---------- Constants ----------
-const HALF_LIFE_GA_MIN = 67.71;
-const HALF_LIFE_GE_DAYS = 270.95;
-const LN2 = Math.log(2);
-const LAMBDA_GA = LN2 / HALF_LIFE_GA_MIN;
-const LAMBDA_GE = LN2 / (HALF_LIFE_GE_DAYS * 24 * 60);
-
-const SPEED_KMH = 60;
-const minutesFromDistance = (km: number) => Math.max(0, Math.round((km / SPEED_KMH) * 60));
-
-const DB_NAME = "Ga68Planner";
-const DB_VERSION = 2;
-const STORE_GENERATORS = "generators";
-const STORE_HOSPITALS = "hospitals";
-const STORE_ORDERS = "orders";
-const STORE_FUTURE_ORDERS = "future_orders";
-
 // ---------- IndexedDB ----------
 function openDB() {
   return new Promise<IDBDatabase>((resolve, reject) => {
     const req = indexedDB.open(DB_NAME, DB_VERSION);
 
-    // Use `any` on event to avoid TS DOM lib mismatch in some setups
-    req.onupgradeneeded = (event: any) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_GENERATORS)) {
-        db.createObjectStore(STORE_GENERATORS, { keyPath: "id" });
-      }
-      if (!db.objectStoreNames.contains(STORE_HOSPITALS)) {
-        db.createObjectStore(STORE_HOSPITALS, { keyPath: "id" });
-      }
-      if (!db.objectStoreNames.contains(STORE_ORDERS)) {
-        db.createObjectStore(STORE_ORDERS, { keyPath: "id" });
-      }
-      if (!db.objectStoreNames.contains(STORE_FUTURE_ORDERS)) {
-        db.createObjectStore(STORE_FUTURE_ORDERS, { keyPath: "id" });
-      }
+    req.onupgradeneeded = (event) => {
+      upgradeSchema(req.result, req.transaction!, event.oldVersion ?? 0);
     };
 
     req.onblocked = () => {
@@ -50,7 +41,7 @@ function openDB() {
     };
 
     req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error as any);
+    req.onerror = () => reject(req.error);
   });
 }
 
@@ -60,206 +51,196 @@ function idbGetAll<T>(db: IDBDatabase, store: string): Promise<T[]> {
     const st = tx.objectStore(store);
     const req = st.getAll();
     req.onsuccess = () => resolve(req.result as T[]);
-    req.onerror = () => reject(req.error as any);
+    req.onerror = () => reject(req.error);
   });
 }
 
-function idbPut<T>(db: IDBDatabase, store: string, value: T): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(store, "readwrite");
-    const st = tx.objectStore(store);
-    const req = st.put(value as any);
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error as any);
-  });
-}
+// ---------- Audit trail ----------
+type AuditAction = "create" | "update" | "delete" | "bulk" | "rescan" | "import" | "undo" | "redo";
 
-function idbDelete(db: IDBDatabase, store: string, key: IDBValidKey): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(store, "readwrite");
-    const st = tx.objectStore(store);
-    const req = st.delete(key);
-    req.onsuccess = () => resolve();
-    req.onerror = () => reject(req.error as any);
-  });
+// Before/after snapshot of one record; entries from one write share txn_id
+type AuditEntry = {
+  id: string;
+  at: string; // local "YYYY-MM-DDTHH:MM:SS"
+  user: string;
+  action: AuditAction;
+  store: string;
+  entity_id: string; // "*" for a summary of the whole write
+  before: unknown;
+  after: unknown;
+  txn_id: string;
+};
+
+// One record to write (after = null deletes it); every store is keyed on "id"
+type StoreChange = { store: string; key: IDBValidKey; after: unknown };
+
+// One record as a write changed it (null = absent)
+type UndoChange = { store: string; key: IDBValidKey; before: unknown; after: unknown };
+
+// Everything written on behalf of one user action, undone and redone as a unit
+type UndoStep = { id: string; label: string; changes: UndoChange[] };
+
+const UNDO_LIMIT = 50;
+
+// Workstation user stamped on audit entries; the App keeps it in step with the operator field
+const auditSession = { user: "" };
+
+// An empty step; each write made for the action passes it along to be recorded
+function beginUndoStep(label: string): UndoStep {
+  return { id: genId("UNDO"), label, changes: [] };
 }
 
-function idbBulkPut<T>(db: IDBDatabase, store: string, values: T[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(store, "readwrite");
-    const st = tx.objectStore(store);
-    values.forEach((v) => st.put(v as any));
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error as any);
-  });
+function auditTimestamp(d = new Date()): string {
+  return `${formatLocal(d)}:${pad2(d.getSeconds())}`;
 }
 
-async function idbWriteRescanAtomically(
+/**
+ * Applies the changes and appends their before/after to the audit log in one transaction.
+ * Records already equal to `after` are neither rewritten nor logged. `action` defaults to
+ * create/update/delete per record; `summary` adds one "*" entry describing the whole write.
+ * Once committed, the records actually changed are appended to `step`.
+ */
+function idbWriteAudited(
   db: IDBDatabase,
-  ordersToWrite: Order[],
-  generatorsToWrite: Generator[]
+  changes: StoreChange[],
+  { action, summary, step }: { action?: AuditAction; summary?: { store: string; after: unknown }; step?: UndoStep } = {}
 ): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    const tx = db.transaction([STORE_ORDERS, STORE_GENERATORS], "readwrite");
-    const stOrders = tx.objectStore(STORE_ORDERS);
-    const stGens = tx.objectStore(STORE_GENERATORS);
-
-    ordersToWrite.forEach((o) => stOrders.put(o as any));
-    generatorsToWrite.forEach((g) => stGens.put(g as any));
+    const stores = [...new Set([...changes.map((c) => c.store), STORE_AUDIT])];
+    const tx = db.transaction(stores, "readwrite");
+    const audit = tx.objectStore(STORE_AUDIT);
+    const txnId = genId("TX");
+    const applied: UndoChange[] = [];
+    const log = (store: string, entityId: string, a: AuditAction, before: unknown, after: unknown) =>
+      audit.add({ id: genId("AUD"), at: auditTimestamp(), user: auditSession.user || "unknown", action: a, store, entity_id: entityId, before, after, txn_id: txnId } satisfies AuditEntry);
+
+    for (const c of changes) {
+      const st = tx.objectStore(c.store);
+      const req = st.get(c.key);
+      req.onsuccess = () => {
+        const before = req.result ?? null;
+        if (c.after == null) {
+          if (before == null) return;
+          st.delete(c.key);
+        } else {
+          if (before != null && JSON.stringify(before) === JSON.stringify(c.after)) return;
+          st.put(c.after);
+        }
+        applied.push({ store: c.store, key: c.key, before, after: c.after ?? null });
+        log(c.store, String(c.key), action ?? (c.after == null ? "delete" : before == null ? "create" : "update"), before, c.after ?? null);
+      };
+    }
+    if (summary) log(summary.store, "*", action ?? "bulk", null, summary.after);
 
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error as any);
-    tx.onabort = () => reject(tx.error as any);
+    tx.oncomplete = () => {
+      step?.changes.push(...applied);
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
   });
 }
 
-// ---------- Types ----------
-type Generator = {
-  id: string;
-  activity_mCi: number;
-  efficiency_pct: number;
-  calibration_dt: string; // "YYYY-MM-DDTHH:MM" local
-  last_eluted_dt: string; // "YYYY-MM-DDTHH:MM" local
-  total_eluted_today_mCi?: number;
-  _wearDate?: string;
-};
-
-type Hospital = {
-  id: string;
-  name: string;
-  travel_minutes: number;
-};
-
-type Order = {
-  id: string;
-  hospitalId: string;
-  product: "PSMA" | "Dotatate" | "Research";
-  requested_mCi_at_cal: number;
-  calibration_dt: string; // "YYYY-MM-DDTHH:MM" local
-  prep_minutes: number;
-  travel_minutes: number;
-  assignedGeneratorIds?: string[];
-  assigned_elute_dt?: string;
-  assigned_delta_minutes?: number[];
-  notes?: string;
-};
-
-// ---------- Helpers ----------
-function minutesBetween(a: Date, b: Date) {
-  return (b.getTime() - a.getTime()) / 60000;
-}
-
-function parseLocalDateYYYYMMDD(s: string): Date {
-  const [y, m, d] = s.split("-").map(Number);
-  return new Date(y, (m ?? 1) - 1, d ?? 1, 0, 0, 0, 0);
+// Top-level fields that differ between two snapshots
+function auditChangedFields(before: unknown, after: unknown): string[] {
+  if (before == null || after == null || typeof before !== "object" || typeof after !== "object") return [];
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  return [...new Set([...Object.keys(b), ...Object.keys(a)])].filter((k) => JSON.stringify(b[k]) !== JSON.stringify(a[k])).sort();
 }
 
-// ✅ FIXED parser: supports 'T' or space → YYYY-MM-DDTHH:MM and YYYY-MM-DD HH:MM
-function parseLocalDateTimeYYYYMMDDTHHMM(s: string): Date {
-  if (!s || typeof s !== "string") return new Date(NaN);
-  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/);
-  if (m) {
-    const y = Number(m[1]), mo = Number(m[2]), d = Number(m[3]), h = Number(m[4]), mi = Number(m[5]);
-    return new Date(y, (mo ?? 1) - 1, d ?? 1, h ?? 0, mi ?? 0, 0, 0);
+// Net effect of a step per record: as it was before the first write and after the last
+function netUndoChanges(step: UndoStep): UndoChange[] {
+  const byRecord = new Map<string, UndoChange>();
+  for (const c of step.changes) {
+    const k = `${c.store}\u0000${String(c.key)}`;
+    const seen = byRecord.get(k);
+    byRecord.set(k, seen ? { ...seen, after: c.after } : { ...c });
   }
-  // Fallback: handles ISO with seconds/timezone but beware UTC parsing
-  return new Date(s);
+  return [...byRecord.values()].filter((c) => JSON.stringify(c.before) !== JSON.stringify(c.after));
 }
 
-const pad2 = (n: number) => (n < 10 ? `0${n}` : `${n}`);
-
-function formatLocal(dt: Date) {
-  const yyyy = dt.getFullYear();
-  const mm = pad2(dt.getMonth() + 1);
-  const dd = pad2(dt.getDate());
-  const hh = pad2(dt.getHours());
-  const mi = pad2(dt.getMinutes());
-  return `${yyyy}-${mm}-${dd}T${hh}:${mi}`;
+function recordKey(value: unknown): IDBValidKey {
+  return (value as { id: IDBValidKey }).id;
 }
 
-function dateOnly(dt: Date) {
-  const yyyy = dt.getFullYear();
-  const mm = pad2(dt.getMonth() + 1);
-  const dd = pad2(dt.getDate());
-  return `${yyyy}-${mm}-${dd}`;
+function idbPut<T>(db: IDBDatabase, store: string, value: T, step?: UndoStep): Promise<void> {
+  return idbWriteAudited(db, [{ store, key: recordKey(value), after: value }], { step });
 }
 
-function todayLocalDate() {
-  return dateOnly(new Date());
+function idbDelete(db: IDBDatabase, store: string, key: IDBValidKey, step?: UndoStep): Promise<void> {
+  return idbWriteAudited(db, [{ store, key, after: null }], { step });
 }
 
-function nowLocalISO() {
-  return formatLocal(new Date());
+function idbGet<T>(db: IDBDatabase, store: string, key: IDBValidKey): Promise<T | null> {
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(store, "readonly").objectStore(store).get(key);
+    req.onsuccess = () => resolve((req.result as T | undefined) ?? null);
+    req.onerror = () => reject(req.error);
+  });
 }
 
-function genId(prefix: string) {
-  const d = new Date();
-  const stamp = `${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}-${pad2(d.getHours())}${pad2(d.getMinutes())}${pad2(d.getSeconds())}${String(d.getMilliseconds()).padStart(3, "0")}`;
-  const rnd = Math.floor(Math.random() * 1e6).toString().padStart(6, "0");
-  return `${prefix}-${stamp}-${rnd}`;
+function idbGetByIndex<T>(db: IDBDatabase, store: string, index: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readonly");
+    const req = tx.objectStore(store).index(index).getAll(query);
+    req.onsuccess = () => resolve(req.result as T[]);
+    req.onerror = () => reject(req.error);
+  });
 }
 
-function genOrderIdDateBased(hospitalId?: string, product?: string) {
-  const d = new Date();
-  const yyyy = d.getFullYear();
-  const mm = pad2(d.getMonth() + 1);
-  const dd = pad2(d.getDate());
-  const hh = pad2(d.getHours());
-  const mi = pad2(d.getMinutes());
-  const ss = pad2(d.getSeconds());
-  const ms = d.getMilliseconds().toString().padStart(3, "0");
-  const h = hospitalId ? hospitalId : "H";
-  const p = product ? product : "P";
-  return `O-${yyyy}${mm}${dd}-${hh}${mi}${ss}${ms}-${h}-${p}`;
-}
+const LAST_DATE = "9999-12-31";
 
-function setDatePreserveTime(origISO: string, newDateYYYYMMDD: string): string {
-  const orig = parseLocalDateTimeYYYYMMDDTHHMM(origISO);
-  const [y, m, d] = newDateYYYYMMDD.split("-").map(Number);
-  const newDt = new Date(orig);
-  newDt.setFullYear(y, (m ?? 1) - 1, d ?? 1);
-  return formatLocal(newDt);
+// Orders calibrated between two "YYYY-MM-DD" days, both included
+function idbGetOrdersInDateRange(db: IDBDatabase, store: string, fromYYYYMMDD: string, toYYYYMMDD: string): Promise<Order[]> {
+  return idbGetByIndex<Order>(db, store, "calibration_dt", IDBKeyRange.bound(fromYYYYMMDD, `${toYYYYMMDD}T\uffff`));
 }
 
-function formatTimeLocal(dt: Date) {
-  return `${pad2(dt.getHours())}:${pad2(dt.getMinutes())}`;
+// Live and future orders calibrated on one "YYYY-MM-DD" day, including days outside the loaded range
+async function idbCountOrdersOnDay(db: IDBDatabase, day: string): Promise<number> {
+  const [live, fut] = await Promise.all([STORE_ORDERS, STORE_FUTURE_ORDERS].map((store) => idbGetOrdersInDateRange(db, store, day, day)));
+  return live.length + fut.length;
 }
 
-function formatDateFriendly(dt: Date) {
-  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  return `${months[dt.getMonth()]} ${dt.getDate()}, ${dt.getFullYear()}`;
+function idbBulkPut<T>(db: IDBDatabase, store: string, values: T[], step?: UndoStep): Promise<void> {
+  return idbWriteAudited(db, values.map((v) => ({ store, key: recordKey(v), after: v })), { action: "bulk", step });
 }
 
-function formatDateTimeFriendly(dt: Date) {
-  return `${formatDateFriendly(dt)} ${formatTimeLocal(dt)}`;
+// Logs the measured elution and moves the generator's last elution in one transaction
+function idbWriteElutionLog(db: IDBDatabase, entry: ElutionLogEntry, generator: Generator, step?: UndoStep): Promise<void> {
+  return idbWriteAudited(db, [
+    { store: STORE_ELUTION_LOG, key: entry.id, after: entry },
+    { store: STORE_GENERATORS, key: generator.id, after: generator },
+  ], { step });
 }
 
-// Safe extract local date string
-function localDateStringFromISO(isoLocal: string): string {
-  return dateOnly(parseLocalDateTimeYYYYMMDDTHHMM(isoLocal));
+// Removes a logged elution and restores the generator it moved, in one transaction
+function idbDeleteElutionLog(db: IDBDatabase, entryId: string, generator: Generator, step?: UndoStep): Promise<void> {
+  return idbWriteAudited(db, [
+    { store: STORE_ELUTION_LOG, key: entryId, after: null },
+    { store: STORE_GENERATORS, key: generator.id, after: generator },
+  ], { step });
 }
 
-// Short ID (display only)
-function shortId(id: string, len: number = 6): string {
-  const clean = (id ?? "").replace(/[^A-Za-z0-9]/g, "");
-  if (!clean) return id ?? "";
-  return clean.length <= len ? clean : clean.slice(-len);
+async function idbWriteRescanAtomically(
+  db: IDBDatabase,
+  ordersToWrite: Order[],
+  generatorsToWrite: Generator[],
+  step?: UndoStep
+): Promise<void> {
+  return idbWriteAudited(
+    db,
+    [
+      ...ordersToWrite.map((o) => ({ store: STORE_ORDERS, key: o.id, after: o })),
+      ...generatorsToWrite.map((g) => ({ store: STORE_GENERATORS, key: g.id, after: g })),
+    ],
+    { action: "rescan", summary: { store: STORE_ORDERS, after: { orders: ordersToWrite.length, generators: generatorsToWrite.length } }, step }
+  );
 }
 
-// ---------- Range helpers (restore) ----------
-function addDays(yyyyMMDD: string, days: number): string {
-  const d = parseLocalDateYYYYMMDD(yyyyMMDD);
-  d.setDate(d.getDate() + days);
-  return dateOnly(d);
-}
-function startOfWeekMonday(yyyyMMDD: string): string {
-  const d = parseLocalDateYYYYMMDD(yyyyMMDD);
-  const dow = d.getDay(); // 0=Sun..6=Sat
-  const offset = (dow + 6) % 7; // Monday=0
-  return addDays(yyyyMMDD, -offset);
-}
-function inDateRange(dYYYYMMDD: string, startYYYYMMDD: string, endYYYYMMDD: string): boolean {
-  return dYYYYMMDD >= startYYYYMMDD && dYYYYMMDD <= endYYYYMMDD;
+// Audit entries between two "YYYY-MM-DD" days, oldest first
+function idbGetAuditInDateRange(db: IDBDatabase, fromYYYYMMDD: string, toYYYYMMDD: string): Promise<AuditEntry[]> {
+  return idbGetByIndex<AuditEntry>(db, STORE_AUDIT, "at", IDBKeyRange.bound(fromYYYYMMDD, `${toYYYYMMDD}T\uffff`));
 }
 
 // ---------- Save As helper (restore) ----------
@@ -273,9 +254,12 @@ async function saveBlobWithPicker(
   const ext = opts?.ext ?? (suggestedName.includes(".") ? "" : ".json");
   const finalName = suggestedName + ext;
 
-  const anyWindow = window as any;
-  if (typeof anyWindow.showSaveFilePicker === "function") {
-    const handle = await anyWindow.showSaveFilePicker({
+  // File System Access API; not in every browser or in the DOM typings
+  const pickerWindow = window as Window & {
+    showSaveFilePicker?: (options: { suggestedName?: string; types?: { description?: string; accept: Record<string, string[]> }[] }) => Promise<FileSystemFileHandle>;
+  };
+  if (typeof pickerWindow.showSaveFilePicker === "function") {
+    const handle = await pickerWindow.showSaveFilePicker({
       suggestedName: finalName,
       types: [{ description, accept: { [mime]: [ext || ".json"] } }],
     });
@@ -293,313 +277,6 @@ async function saveBlobWithPicker(
   }
 }
 
-// ---------- Wear normalization (restore) ----------
-function normalizeDailyWear(gens: Generator[], dayYYYYMMDD: string): Generator[] {
-  return gens.map((g) => {
-    const anyG = g as Generator;
-    if (anyG._wearDate !== dayYYYYMMDD) {
-      return { ...g, total_eluted_today_mCi: 0, _wearDate: dayYYYYMMDD };
-    }
-    return g;
-  });
-}
-
-// ---------- Confirmation text ----------
-function buildOrderProcessedConfirmation(order: Order, hospitals: Hospital[]): string {
-  const clientName = hospitals.find(h => h.id === order.hospitalId)?.name ?? order.hospitalId;
-  const dt = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
-  const timeStr = isNaN(dt.getTime()) ? "—" : formatTimeLocal(dt);
-  const doseStr = Number(order.requested_mCi_at_cal ?? 0).toFixed(2);
-  return `${doseStr} mCi dose with cal time of ${timeStr} for "${clientName}" has been processed.`;
-}
-
-// ---------- Expiry helpers ----------
-function generatorExpiryDate(gen: Generator): Date {
-  const cal = parseLocalDateTimeYYYYMMDDTHHMM(gen.calibration_dt);
-  const exp = new Date(cal);
-  exp.setFullYear(exp.getFullYear() + 1);
-  exp.setDate(exp.getDate() - 1);
-  exp.setHours(23, 59, 0, 0);
-  return exp;
-}
-function isGeneratorExpired(gen: Generator, eluteDt: Date): boolean {
-  return eluteDt.getTime() > generatorExpiryDate(gen).getTime();
-}
-function daysUntilExpiry(gen: Generator, ref: Date = new Date()): number {
-  const ms = generatorExpiryDate(gen).getTime() - ref.getTime();
-  return Math.ceil(ms / (1000 * 60 * 60 * 24));
-}
-
-// ---------- Physics ----------
-function parentAtTime_mCi(gen: Generator, eluteDt: Date): number {
-  const cal = parseLocalDateTimeYYYYMMDDTHHMM(gen.calibration_dt);
-  const minutes = minutesBetween(cal, eluteDt);
-  const A0 = gen.activity_mCi;
-  return A0 * Math.exp(-LAMBDA_GE * minutes);
-}
-function availableAtElute_mCi(
-  gen: Generator,
-  eluteDt: Date,
-  minLockMinutes: number
-): { available: number; eligible: boolean; reason?: string; deltaSinceLastMin: number } {
-  const last = parseLocalDateTimeYYYYMMDDTHHMM(gen.last_eluted_dt);
-  const dtMin = Math.max(0, minutesBetween(last, eluteDt));
-  const eligibleLock = dtMin >= minLockMinutes;
-  const expired = isGeneratorExpired(gen, eluteDt);
-  const parent = parentAtTime_mCi(gen, eluteDt);
-  const efficiency = (gen.efficiency_pct ?? 60) / 100;
-  const available = parent * efficiency * (1 - Math.exp(-LAMBDA_GA * dtMin));
-  const eligible = eligibleLock && !expired;
-  const reason = expired ? "Expired" : eligibleLock ? undefined : `Lock: needs ${Math.ceil(minLockMinutes - dtMin)} more min`;
-  return { available, eligible, reason, deltaSinceLastMin: dtMin };
-}
-function requiredAtElute_mCi(order: Order): { required: number; eluteDt: Date } {
-  const calDt = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
-  const deltaMinutes = (order.prep_minutes ?? 15) + (order.travel_minutes ?? 0);
-  const eluteDt = new Date(calDt.getTime() - deltaMinutes * 60000);
-  const required = (order.requested_mCi_at_cal ?? 0) * Math.exp(LAMBDA_GA * deltaMinutes);
-  return { required, eluteDt };
-}
-
-// ---------- Assignment policy ----------
-function assignOrdersEfficient(
-  orders: Order[],
-  generators: Generator[],
-  options: { minLockMinutes: number }
-): { orders: Order[]; messages: string[] } {
-  const msgs: string[] = [];
-  const gens = generators.map((g) => ({ ...g }));
-  const byId: Record<string, Generator> = Object.fromEntries(gens.map((g) => [g.id, g]));
-
-  const sorted = [...orders].sort(
-    (a, b) => parseLocalDateTimeYYYYMMDDTHHMM(a.calibration_dt).getTime() - parseLocalDateTimeYYYYMMDDTHHMM(b.calibration_dt).getTime()
-  );
-
-  const resultOrders: Order[] = [];
-
-  for (const ord of sorted) {
-    const { required, eluteDt } = requiredAtElute_mCi(ord);
-    const candidates = gens.map((g) => {
-      const avail = availableAtElute_mCi(g, eluteDt, options.minLockMinutes);
-      return {
-        gen: g,
-        available: avail.available,
-        eligible: avail.eligible,
-        reason: avail.reason,
-        deltaSinceLastMin: avail.deltaSinceLastMin,
-        efficiency: g.efficiency_pct ?? 60,
-        parentAtElute: parentAtTime_mCi(g, eluteDt),
-        wear: g.total_eluted_today_mCi ?? 0,
-      };
-    });
-
-    const eligible = candidates.filter((c) => c.eligible);
-
-    eligible.sort((a, b) => {
-      if (b.efficiency !== a.efficiency) return b.efficiency - a.efficiency;
-      if (b.available !== a.available) return b.available - a.available;
-      if (b.deltaSinceLastMin !== a.deltaSinceLastMin) return b.deltaSinceLastMin - a.deltaSinceLastMin;
-      if (a.wear !== b.wear) return a.wear - b.wear;
-      return a.gen.id.localeCompare(b.gen.id);
-    });
-
-    let assigned: string[] = [];
-    let assignedDelta: number[] = [];
-    let note = "";
-
-    if (ord.product === "PSMA") {
-      const single = eligible.find((c) => c.available >= required);
-      if (single) {
-        assigned = [single.gen.id];
-        assignedDelta = [single.deltaSinceLastMin];
-        note = `Single generator ${single.gen.id}`;
-      } else {
-        let bestCombo: { ids: string[]; totalAvailable: number; deltas: number[] } | null = null;
-        for (let i = 0; i < eligible.length; i++) {
-          for (let j = i + 1; j < eligible.length; j++) {
-            const g1 = eligible[i], g2 = eligible[j];
-            const total = g1.available + g2.available;
-            if (total >= required) {
-              const combo = { ids: [g1.gen.id, g2.gen.id], totalAvailable: total, deltas: [g1.deltaSinceLastMin, g2.deltaSinceLastMin] };
-              if (!bestCombo || total > bestCombo.totalAvailable) {
-                bestCombo = combo;
-              }
-            }
-          }
-        }
-        if (bestCombo) {
-          assigned = bestCombo.ids;
-          assignedDelta = bestCombo.deltas;
-          note = `Combined generators ${assigned.join(" + ")}`;
-        }
-      }
-    } else {
-      const single = eligible.find((c) => c.available >= required);
-      if (single) {
-        assigned = [single.gen.id];
-        assignedDelta = [single.deltaSinceLastMin];
-        note = `Single generator ${single.gen.id}`;
-      }
-    }
-
-    const oCopy: Order = { ...ord };
-    oCopy.assigned_elute_dt = formatLocal(eluteDt);
-
-    if (assigned.length > 0) {
-      oCopy.assignedGeneratorIds = assigned;
-      oCopy.assigned_delta_minutes = assignedDelta;
-      oCopy.notes = `${note}; required @ elute ${required.toFixed(2)} mCi`;
-      const perGenShare = required / assigned.length;
-      for (const gid of assigned) {
-        const g = byId[gid];
-        g.last_eluted_dt = formatLocal(eluteDt);
-        g.total_eluted_today_mCi = (g.total_eluted_today_mCi ?? 0) + perGenShare;
-        g._wearDate = todayLocalDate();
-      }
-      msgs.push(`Order ${ord.id}: assigned ${assigned.join(", ")} at ${oCopy.assigned_elute_dt}`);
-    } else {
-      oCopy.assignedGeneratorIds = [];
-      oCopy.assigned_delta_minutes = [];
-      oCopy.notes = `Insufficient availability. Required @ elute ${required.toFixed(2)} mCi.`;
-      msgs.push(`Order ${ord.id}: unmet; insufficient availability.`);
-    }
-
-    resultOrders.push(oCopy);
-  }
-
-  return { orders: resultOrders, messages: msgs };
-}
-
-// ---------- Simulation assignment ----------
-function assignOrdersEfficientSim(
-  orders: Order[],
-  generators: Generator[],
-  options: { minLockMinutes: number; respectLock: boolean; treatFirstUseMax: boolean; firstUseIgnoresLock?: boolean }
-): { orders: Order[]; messages: string[] } {
-  const msgs: string[] = [];
-  const gens = generators.map((g) => ({ ...g }));
-  const usedFirst: Set<string> = new Set();
-  const ignoreLockOnFirst = options.firstUseIgnoresLock ?? true;
-
-  const sorted = [...orders].sort(
-    (a, b) => parseLocalDateTimeYYYYMMDDTHHMM(a.calibration_dt).getTime() - parseLocalDateTimeYYYYMMDDTHHMM(b.calibration_dt).getTime()
-  );
-
-  const resultOrders: Order[] = [];
-
-  for (const ord of sorted) {
-    const { required, eluteDt } = requiredAtElute_mCi(ord);
-
-    const candidates = gens.map((g) => {
-      if (isGeneratorExpired(g, eluteDt)) {
-        return {
-          gen: g,
-          available: 0,
-          eligible: false,
-          reason: "Expired",
-          deltaSinceLastMin: 0,
-          efficiency: g.efficiency_pct ?? 60,
-          parentAtElute: parentAtTime_mCi(g, eluteDt),
-          wear: g.total_eluted_today_mCi ?? 0,
-        };
-      }
-
-      const baseline = availableAtElute_mCi(g, eluteDt, options.respectLock ? options.minLockMinutes : 0);
-      let available = baseline.available;
-      let eligible = baseline.eligible || !options.respectLock;
-      let deltaSinceLastMin = baseline.deltaSinceLastMin;
-
-      if (options.treatFirstUseMax && !usedFirst.has(g.id)) {
-        const parent = parentAtTime_mCi(g, eluteDt);
-        const efficiency = (g.efficiency_pct ?? 60) / 100;
-        available = parent * efficiency; // MAX at first use
-        eligible = !isGeneratorExpired(g, eluteDt) && (ignoreLockOnFirst ? true : (options.respectLock ? baseline.eligible : true));
-      }
-
-      return {
-        gen: g,
-        available,
-        eligible,
-        reason: undefined,
-        deltaSinceLastMin,
-        efficiency: g.efficiency_pct ?? 60,
-        parentAtElute: parentAtTime_mCi(g, eluteDt),
-        wear: g.total_eluted_today_mCi ?? 0,
-      };
-    });
-
-    const eligible = candidates.filter((c) => c.eligible);
-
-    eligible.sort((a, b) => {
-      if (b.efficiency !== a.efficiency) return b.efficiency - a.efficiency;
-      if (b.available !== a.available) return b.available - a.available;
-      if (b.deltaSinceLastMin !== a.deltaSinceLastMin) return b.deltaSinceLastMin - a.deltaSinceLastMin;
-      if (a.wear !== b.wear) return a.wear - b.wear;
-      return a.gen.id.localeCompare(b.gen.id);
-    });
-
-    let assigned: string[] = [];
-    let assignedDelta: number[] = [];
-    let note = "";
-
-    if (ord.product === "PSMA") {
-      const single = eligible.find((c) => c.available >= required);
-      if (single) {
-        assigned = [single.gen.id];
-        assignedDelta = [single.deltaSinceLastMin];
-        note = `Single generator ${single.gen.id}`;
-      } else {
-        let bestCombo: { ids: string[]; totalAvailable: number; deltas: number[] } | null = null;
-        for (let i = 0; i < eligible.length; i++) {
-          for (let j = i + 1; j < eligible.length; j++) {
-            const g1 = eligible[i], g2 = eligible[j];
-            const total = g1.available + g2.available;
-            if (total >= required) {
-              const combo = { ids: [g1.gen.id, g2.gen.id], totalAvailable: total, deltas: [g1.deltaSinceLastMin, g2.deltaSinceLastMin] };
-              if (!bestCombo || total > bestCombo.totalAvailable) {
-                bestCombo = combo;
-              }
-            }
-          }
-        }
-        if (bestCombo) {
-          assigned = bestCombo.ids;
-          assignedDelta = bestCombo.deltas;
-          note = `Combined generators ${assigned.join(" + ")}`;
-        }
-      }
-    } else {
-      const single = eligible.find((c) => c.available >= required);
-      if (single) {
-        assigned = [single.gen.id];
-        assignedDelta = [single.deltaSinceLastMin];
-        note = `Single generator ${single.gen.id}`;
-      }
-    }
-
-    const oCopy: Order = { ...ord };
-    oCopy.assigned_elute_dt = formatLocal(eluteDt);
-
-    if (assigned.length > 0) {
-      oCopy.assignedGeneratorIds = assigned;
-      oCopy.assigned_delta_minutes = assignedDelta;
-      oCopy.notes = `${note}; required @ elute ${required.toFixed(2)} mCi (simulation)`;
-      msgs.push(`Sim ${ord.id}: assigned ${assigned.join(", ")} at ${oCopy.assigned_elute_dt}`);
-      usedFirst.add(assigned[0]);
-      if (assigned.length === 2) usedFirst.add(assigned[1]);
-    } else {
-      oCopy.assignedGeneratorIds = [];
-      oCopy.assigned_delta_minutes = [];
-      oCopy.notes = `Unmet (simulation). Required @ elute ${required.toFixed(2)} mCi.`;
-      msgs.push(`Sim ${ord.id}: unmet.`);
-    }
-
-    resultOrders.push(oCopy);
-  }
-
-  return { orders: resultOrders, messages: msgs };
-}
-
 // ---------- UI primitives ----------
 function Field({ label, children }: { label: string; children: React.ReactNode }) {
   return (
@@ -624,38 +301,171 @@ function PreviewDateTime({ iso }: { iso?: string }) {
     ? <div className="text-xs text-red-600">Invalid datetime</div>
     : <div className="text-xs text-slate-500">Preview: {formatDateTimeFriendly(dt)}</div>;
 }
-function Toast({ message, kind }: { message: string; kind: "info" | "success" | "error" }) {
+// Activity entry in a selectable unit; keeps requested_mCi_at_cal in sync
+function ActivityAmountInput({ order, defaultUnit, onChange, title }: {
+  order: Partial<Order>;
+  defaultUnit: ActivityUnit;
+  onChange: (patch: Partial<Order>) => void;
+  title?: string;
+}) {
+  const unit = order.ordered_unit ?? defaultUnit;
+  const amount = order.ordered_unit && order.ordered_amount != null ? order.ordered_amount : activityInputValue(order.requested_mCi_at_cal, unit);
+  return (
+    <div className="flex gap-1">
+      <input title={title} type="number" className="border p-2 rounded flex-1 min-w-0" value={amount} onChange={(e) => {
+        const v = Number(e.target.value);
+        onChange({ ordered_amount: v, ordered_unit: unit, requested_mCi_at_cal: unitToMCi(v, unit) });
+      }} />
+      <select title="Unit the hospital ordered in" className="border p-2 rounded" value={unit} onChange={(e) => {
+        const u = e.target.value as ActivityUnit;
+        onChange(amount === "" ? { ordered_unit: u } : { ordered_unit: u, ordered_amount: amount, requested_mCi_at_cal: unitToMCi(amount, u) });
+      }}>
+        {ACTIVITY_UNITS.map((u) => <option key={u} value={u}>{u}</option>)}
+      </select>
+    </div>
+  );
+}
+// Lifecycle status; hover for who moved it when
+function OrderStatusBadge({ status, history }: { status: OrderStatus; history?: OrderStatusChange[] }) {
+  const tone = status === "cancelled" ? "bg-red-100 text-red-800" : FROZEN_STATUSES.has(status) ? "bg-emerald-100 text-emerald-800" : status === "confirmed" ? "bg-blue-100 text-blue-800" : "bg-slate-100 text-slate-700";
+  const tip = (history ?? []).map((h) => `${h.status} — ${formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(h.at))} by ${h.by}${h.reason ? ` (${h.reason})` : ""}`).join("\n");
+  return <span title={tip || "No transitions recorded"} className={`text-xs px-1 rounded ${tone}`}>{status}</span>;
+}
+function AssignmentTracePanel({ trace, unit }: { trace?: AssignmentTrace; unit: ActivityUnit }) {
+  if (!trace) return <div className="text-sm text-slate-500">No decision trace yet; run an assignment first.</div>;
+  return (
+    <div className="text-sm">
+      <div className="mb-1">
+        {trace.solver} at {formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(trace.elute_dt))}: required {formatActivityWithUnit(trace.required_mCi, unit)} → <span className="font-medium">{trace.outcome}</span>
+        {trace.window_tries > 1 ? <span className="text-slate-500"> ({trace.window_tries} elution times in window)</span> : null}
+      </div>
+      <table className="min-w-full border">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="px-2 py-1 text-left">Rank</th>
+            <th className="px-2 py-1 text-left">Generator</th>
+            <th className="px-2 py-1 text-left">Available ({unit})</th>
+            <th className="px-2 py-1 text-left">Since last elution</th>
+            <th className="px-2 py-1 text-left">Decision</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trace.candidates.map((c) => (
+            <tr key={c.generatorId} className="border-t">
+              <td className="px-2 py-1">{c.rank ?? "—"}</td>
+              <td className="px-2 py-1">{c.generatorId}</td>
+              <td className="px-2 py-1">{formatActivity(c.available_mCi, unit)}</td>
+              <td className="px-2 py-1">{Math.round(c.minutes_since_last)} min</td>
+              <td className={`px-2 py-1 ${c.chosen ? "text-emerald-700 font-medium" : c.eligible ? "text-slate-600" : "text-red-700"}`}>{c.chosen ? "Chosen" : c.reason}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+function Toast({ message, kind, actionLabel, onAction }: { message: string; kind: "info" | "success" | "error"; actionLabel?: string; onAction?: () => void }) {
   const color =
     kind === "success" ? "bg-emerald-50 text-emerald-700 border-emerald-200" :
     kind === "error" ? "bg-red-50 text-red-700 border-red-200" :
     "bg-slate-50 text-slate-700 border-slate-200";
-  return <div className={`p-2 rounded border ${color}`}>{message}</div>;
+  return (
+    <div className={`p-2 rounded border ${color} flex items-center gap-3`}>
+      <span>{message}</span>
+      {onAction && <button className="ml-auto px-2 py-0.5 rounded border border-current text-sm" onClick={onAction}>{actionLabel}</button>}
+    </div>
+  );
 }
 
 // ---------- App ----------
 function App() {
   const [db, setDb] = useState<IDBDatabase | null>(null);
-  const [page, setPage] = useState<"orders" | "upcoming" | "future" | "generators" | "hospitals">("orders");
+  const [page, setPage] = useState<"orders" | "availability" | "upcoming" | "future" | "recurring" | "calendar" | "generators" | "hospitals" | "products" | "audit">("orders");
 
   const [generators, setGenerators] = useState<Generator[]>([]);
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [futureOrders, setFutureOrders] = useState<Order[]>([]);
+  const [generatorModels, setGeneratorModels] = useState<GeneratorModel[]>([]);
+  const [elutionLog, setElutionLog] = useState<ElutionLogEntry[]>([]);
+  const [breakthroughTests, setBreakthroughTests] = useState<BreakthroughTest[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [recurringTemplates, setRecurringTemplates] = useState<RecurringOrder[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [facilityDays, setFacilityDays] = useState<FacilityDay[]>([]);
+  const [synthesisModules, setSynthesisModules] = useState<SynthesisModule[]>([]);
+  const [deliveryRuns, setDeliveryRuns] = useState<DeliveryRun[]>([]);
+  const facilityCalendar = useMemo(() => facilityCalendarFrom(settings, facilityDays), [settings, facilityDays]);
+
+  const planningCtx = useMemo<PlanningContext>(() => {
+    const testsByGen: Record<string, BreakthroughTest[]> = {};
+    for (const t of breakthroughTests) (testsByGen[t.generatorId] ??= []).push(t);
+    return {
+      modelsById: Object.fromEntries(generatorModels.map((m) => [m.id, m])),
+      productsById: Object.fromEntries(products.map((p) => [p.id, p])),
+      hospitalsById: Object.fromEntries(hospitals.map((h) => [h.id, h])),
+      activityUnit: settings.activity_unit,
+      maxGeneratorsPerDose: settings.max_generators_per_dose,
+      breakthrough: { testsByGen, limit_pct: settings.breakthrough_limit_pct, interval_days: settings.breakthrough_interval_days },
+      calendar: settings.enforce_operating_hours ? facilityCalendar : undefined,
+      modules: synthesisModules,
+    };
+  }, [generatorModels, products, hospitals, breakthroughTests, settings, facilityCalendar, synthesisModules]);
 
   const [minLockMinutes, setMinLockMinutes] = useState<number>(20);
+  const [assignmentStrategy, setAssignmentStrategy] = useState<AssignmentStrategyId>("optimal");
   const [selectedDate, setSelectedDate] = useState<string>(todayLocalDate());
 
+  // Live orders from today (or an earlier day being viewed) onward; older history stays on disk
+  const liveFrom = selectedDate < todayLocalDate() ? selectedDate : todayLocalDate();
+  function loadLiveOrders(database: IDBDatabase) {
+    return idbGetOrdersInDateRange(database, STORE_ORDERS, liveFrom, LAST_DATE);
+  }
+  useEffect(() => {
+    if (!db) return;
+    let stale = false;
+    idbGetOrdersInDateRange(db, STORE_ORDERS, liveFrom, LAST_DATE).then((ords) => { if (!stale) setOrders(ords); });
+    return () => { stale = true; };
+  }, [db, liveFrom]);
+
   const [busy, setBusy] = useState<boolean>(false);
-  const [toast, setToast] = useState<{ msg: string; kind: "info" | "success" | "error" } | null>(null);
+  const [toast, setToast] = useState<{ msg: string; kind: "info" | "success" | "error"; action?: "undo" | "redo" } | null>(null);
 
   const [ordersFilterHospitalId, setOrdersFilterHospitalId] = useState<string>("");
-  const [ordersFilterProduct, setOrdersFilterProduct] = useState<"" | "PSMA" | "Dotatate" | "Research">("");
+  const [ordersFilterStatus, setOrdersFilterStatus] = useState<OrderStatus | "">("");
+  const [futureFilterStatus, setFutureFilterStatus] = useState<OrderStatus | "">("");
+  const [operatorName, setOperatorName] = useState<string>("");
+  const [pendingRescan, setPendingRescan] = useState<PendingRescan | null>(null);
+  const [insertionMode, setInsertionMode] = useState<"full" | "incremental">("full");
+  const [ordersFilterProduct, setOrdersFilterProduct] = useState<string>("");
 
   // Upcoming
   const [upcomingAnchorDate, setUpcomingAnchorDate] = useState<string>(todayLocalDate());
   const upcomingWeekStart = useMemo(() => startOfWeekMonday(upcomingAnchorDate), [upcomingAnchorDate]);
-  const upcomingDays = useMemo(() => Array.from({ length: 5 }, (_, i) => addDays(upcomingWeekStart, i)), [upcomingWeekStart]);
+  // Operating days of the week, plus closed days that still carry orders so they can be flagged
+  // Only the shown week is read, again whenever either order list is written
+  const [upcomingLive, setUpcomingLive] = useState<Order[]>([]);
+  const [upcomingFuture, setUpcomingFuture] = useState<Order[]>([]);
+  useEffect(() => {
+    if (!db || page !== "upcoming") return;
+    let stale = false;
+    const end = addDays(upcomingWeekStart, 6);
+    Promise.all([
+      idbGetOrdersInDateRange(db, STORE_ORDERS, upcomingWeekStart, end),
+      idbGetOrdersInDateRange(db, STORE_FUTURE_ORDERS, upcomingWeekStart, end),
+    ]).then(([live, fut]) => {
+      if (stale) return;
+      setUpcomingLive(live);
+      setUpcomingFuture(fut);
+    });
+    return () => { stale = true; };
+  }, [db, page, upcomingWeekStart, orders, futureOrders]);
+  const upcomingDays = useMemo(() => {
+    const orderDays = new Set([...upcomingLive, ...upcomingFuture].map((o) => localDateStringFromISO(o.calibration_dt)));
+    return Array.from({ length: 7 }, (_, i) => addDays(upcomingWeekStart, i)).filter((d) => isFacilityOpen(facilityCalendar, d) || orderDays.has(d));
+  }, [upcomingWeekStart, facilityCalendar, upcomingLive, upcomingFuture]);
   const [upcomingActiveIdx, setUpcomingActiveIdx] = useState<number>(0);
+  const upcomingActiveDay = upcomingDays[Math.min(upcomingActiveIdx, upcomingDays.length - 1)] ?? upcomingWeekStart;
 
   // Future Vault edit states
   const [editingFutureId, setEditingFutureId] = useState<string | null>(null);
@@ -663,6 +473,9 @@ function App() {
 
   // Future auto-assign controls & messages
   const [futureSimSelectedDate, setFutureSimSelectedDate] = useState<string>(todayLocalDate());
+  const [planStartDate, setPlanStartDate] = useState<string>(todayLocalDate());
+  const [planDays, setPlanDays] = useState<number>(7);
+  const [multiDayPlan, setMultiDayPlan] = useState<PlannedDay[] | null>(null);
   const [simFutureMsgs, setSimFutureMsgs] = useState<string[]>([]);
 
   // Promotion date picker (for "Promote to…")
@@ -673,8 +486,8 @@ function App() {
     let closed = false;
 
     (async () => {
-      if ("storage" in navigator && "persist" in (navigator as any).storage) {
-        try { await (navigator as any).storage.persist(); } catch {}
+      if (navigator.storage?.persist) {
+        try { await navigator.storage.persist(); } catch { /* best effort; the browser may refuse */ }
       }
     })();
 
@@ -687,19 +500,48 @@ function App() {
       };
 
       const gens = await idbGetAll<Generator>(database, STORE_GENERATORS);
-      const hos = await idbGetAll<Hospital>(database, STORE_HOSPITALS);
-      const ords = await idbGetAll<Order>(database, STORE_ORDERS);
-      const fut = await idbGetAll<Order>(database, STORE_FUTURE_ORDERS);
-
-      const fixedHos: Hospital[] = (hos as any[]).map((h: any) => ({
-        id: h.id,
-        name: h.name,
-        travel_minutes: h.travel_minutes ?? (h.distance_km != null ? minutesFromDistance(h.distance_km) : 0),
-      }));
+      const hos = await idbGetAll<RawHospital>(database, STORE_HOSPITALS);
+      const ords = await idbGetOrdersInDateRange(database, STORE_ORDERS, todayLocalDate(), LAST_DATE);
+      let fut = await idbGetAll<Order>(database, STORE_FUTURE_ORDERS);
+      const models = await idbGetAll<GeneratorModel>(database, STORE_GENERATOR_MODELS);
+      const elog = await idbGetAll<ElutionLogEntry>(database, STORE_ELUTION_LOG);
+      const bt = await idbGetAll<BreakthroughTest>(database, STORE_BREAKTHROUGH_TESTS);
+      const storedSettings = (await idbGetAll<AppSettings>(database, STORE_SETTINGS)).find((s) => s.id === "app");
+      let prods = await idbGetAll<Product>(database, STORE_PRODUCTS);
+      if (prods.length === 0) {
+        await idbBulkPut(database, STORE_PRODUCTS, DEFAULT_PRODUCTS);
+        prods = await idbGetAll<Product>(database, STORE_PRODUCTS);
+      }
+
+      const fixedHos: Hospital[] = hos.map(hospitalFromRaw);
+
+      // Keep standing orders materialized over the rolling horizon
+      const loadedSettings = { ...DEFAULT_SETTINGS, ...storedSettings };
+      const calDays = await idbGetAll<FacilityDay>(database, STORE_CALENDAR);
+      const topUp = topUpRecurring(
+        await idbGetAll<RecurringOrder>(database, STORE_RECURRING), fixedHos, todayLocalDate(), loadedSettings.recurring_horizon_days,
+        takenOccurrences([...ords, ...fut]), facilityCalendarFrom(loadedSettings, calDays)
+      );
+      if (topUp.orders.length > 0) {
+        await idbBulkPut(database, STORE_FUTURE_ORDERS, topUp.orders);
+        fut = await idbGetAll<Order>(database, STORE_FUTURE_ORDERS);
+      }
+      await idbBulkPut(database, STORE_RECURRING, topUp.templates);
+      const rec = await idbGetAll<RecurringOrder>(database, STORE_RECURRING);
+
       setGenerators(gens);
       setHospitals(fixedHos);
       setOrders(ords);
       setFutureOrders(fut);
+      setGeneratorModels(models);
+      setElutionLog(elog);
+      setBreakthroughTests(bt);
+      setProducts(prods);
+      setRecurringTemplates(rec);
+      setFacilityDays(calDays);
+      setSynthesisModules(await idbGetAll<SynthesisModule>(database, STORE_MODULES));
+      setDeliveryRuns(await idbGetAll<DeliveryRun>(database, STORE_RUNS));
+      setSettings(loadedSettings);
     });
 
     return () => { closed = true; };
@@ -732,15 +574,24 @@ function App() {
       efficiency_pct: Number(genForm.efficiency_pct ?? 60),
       calibration_dt: genForm.calibration_dt ?? nowLocalISO(),
       last_eluted_dt: genForm.last_eluted_dt ?? nowLocalISO(),
+      modelId: genForm.modelId || undefined,
       total_eluted_today_mCi: 0,
       _wearDate: todayLocalDate(),
     };
+    // Keep the elution-log fit unless the record is a different generator
+    const existing = generators.find((g) => g.id === id);
+    if (existing) {
+      payload.efficiency_fitted_pct = existing.efficiency_fitted_pct;
+      payload.efficiency_fit_n = existing.efficiency_fit_n;
+      payload.last_eluted_source = existing.last_eluted_dt === payload.last_eluted_dt ? existing.last_eluted_source : "manual";
+    }
     const err = validateGeneratorPayload(payload);
     if (err) { alert(err); return; }
 
+    const step = beginUndoStep(`Save generator ${shortId(id)}`);
     setBusy(true);
     try {
-      await idbPut(db, STORE_GENERATORS, payload);
+      await idbPut(db, STORE_GENERATORS, payload, step);
       setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
       setGenForm({ ...genForm, id: "" });
       setToast({ msg: `Generator ${shortId(id)} saved.`, kind: "success" });
@@ -748,6 +599,7 @@ function App() {
       console.error(e);
       setToast({ msg: `Failed to save generator ${shortId(id)}.`, kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -757,15 +609,17 @@ function App() {
     if (!db) return;
     const proceed = confirm(`Delete generator ${id}?`);
     if (!proceed) return;
+    const step = beginUndoStep(`Delete generator ${shortId(id)}`);
     setBusy(true);
     try {
-      await idbDelete(db, STORE_GENERATORS, id);
+      await idbDelete(db, STORE_GENERATORS, id, step);
       setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
       setToast({ msg: `Generator ${shortId(id)} deleted.`, kind: "success" });
     } catch (e) {
       console.error(e);
       setToast({ msg: `Failed to delete generator ${shortId(id)}.`, kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -774,7 +628,8 @@ function App() {
   const gensWithAvailNow = useMemo(() => {
     const now = new Date();
     return generators.map((g) => {
-      const { available, eligible, deltaSinceLastMin } = availableAtElute_mCi(g, now, minLockMinutes);
+      const { available, eligible, deltaSinceLastMin } = availableAtElute_mCi(g, now, minLockMinutes, planningCtx);
+      const lastQc = latestBreakthroughTest(g, now, planningCtx);
       return {
         ...g,
         _availNow: available,
@@ -782,156 +637,912 @@ function App() {
         _eligibleNow: eligible,
         _expired: isGeneratorExpired(g, now),
         _daysToExpiry: daysUntilExpiry(g, now),
-      } as any;
+        _effectiveEffNow: effectiveEfficiencyPct(g, now, planningCtx),
+        _qcReason: breakthroughQcReason(g, now, planningCtx),
+        // Still valid now, but excluded from elutions later today unless tested
+        _qcWarning: !breakthroughQcReason(g, now, planningCtx) && breakthroughTestDue(g, parseLocalDateTimeYYYYMMDDTHHMM(`${todayLocalDate()}T23:59`), planningCtx) ? "breakthrough test due today" : undefined,
+        _lastQc: lastQc,
+        _qcDueInDays: Math.ceil(settings.breakthrough_interval_days - minutesBetween(parseLocalDateTimeYYYYMMDDTHHMM(lastQc ? lastQc.test_dt : g.calibration_dt), now) / (60 * 24)),
+      };
     });
-  }, [generators, minLockMinutes]);
+  }, [generators, minLockMinutes, planningCtx, settings]);
 
-  // ---------- Hospitals Tab ----------
-  const [hospitalForm, setHospitalForm] = useState<Partial<Hospital>>({ id: "", name: "", travel_minutes: undefined as any });
+  // ---------- Elution log ----------
+  const [elutionForm, setElutionForm] = useState<{ generatorId: string; elute_dt: string; measured_mCi: string; operator: string; notes: string }>({
+    generatorId: "", elute_dt: nowLocalISO(), measured_mCi: "", operator: "", notes: "",
+  });
+  const [elutionLogFilterGenId, setElutionLogFilterGenId] = useState<string>("");
 
-  async function addOrUpdateHospital() {
+  async function logElution() {
     if (!db) return;
-    let id = (hospitalForm.id ?? "").trim();
-    if (!id) id = genId("H");
-    if (!hospitalForm.name || (hospitalForm.name ?? "").trim() === "") { alert("Hospital name is required"); return; }
-    const payload: Hospital = { id, name: hospitalForm.name!, travel_minutes: Number(hospitalForm.travel_minutes ?? 0) };
+    const gen = generators.find((g) => g.id === elutionForm.generatorId);
+    if (!gen) { alert("Select generator"); return; }
+    const measured = unitToMCi(Number(elutionForm.measured_mCi), settings.activity_unit);
+    if (!Number.isFinite(measured) || measured <= 0) { alert("Measured activity must be > 0."); return; }
+    if (!elutionForm.operator.trim()) { alert("Operator is required"); return; }
+    const eluteDt = parseLocalDateTimeYYYYMMDDTHHMM(elutionForm.elute_dt);
+    if (isNaN(eluteDt.getTime())) { alert("Invalid elution date/time"); return; }
+
+    // Ingrowth since the generator's most recent elution before this one
+    const earlierLogs = elutionLog
+      .filter((e) => e.generatorId === gen.id && e.elute_dt < formatLocal(eluteDt))
+      .sort((a, b) => b.elute_dt.localeCompare(a.elute_dt));
+    const previous = earlierLogs[0]?.elute_dt
+      ?? (gen.last_eluted_dt < formatLocal(eluteDt) ? gen.last_eluted_dt : formatLocal(new Date(eluteDt.getTime() - 24 * 60 * 60000)));
+    const predicted = availableAtElute_mCi({ ...gen, last_eluted_dt: previous }, eluteDt, 0, planningCtx).available;
+
+    const entry: ElutionLogEntry = {
+      id: genId("E"),
+      generatorId: gen.id,
+      elute_dt: formatLocal(eluteDt),
+      previous_elute_dt: previous,
+      measured_mCi: measured,
+      predicted_mCi: predicted,
+      operator: elutionForm.operator.trim(),
+      notes: elutionForm.notes.trim() || undefined,
+    };
+    const fit = fitGeneratorEfficiency(gen, [...elutionLog, entry], planningCtx);
+    const isLatest = entry.elute_dt >= gen.last_eluted_dt;
+    const updatedGen: Generator = {
+      ...gen,
+      last_eluted_dt: isLatest ? entry.elute_dt : gen.last_eluted_dt,
+      last_eluted_source: isLatest ? "log" : gen.last_eluted_source,
+      efficiency_fitted_pct: fit?.pct,
+      efficiency_fit_n: fit?.n,
+    };
+
+    const step = beginUndoStep("Log elution");
     setBusy(true);
     try {
-      await idbPut(db, STORE_HOSPITALS, payload);
-      setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
-      setHospitalForm({ id: "", name: "", travel_minutes: undefined as any });
-      setToast({ msg: `Hospital "${payload.name}" (${shortId(payload.id)}) saved.`, kind: "success" });
+      await idbWriteElutionLog(db, entry, updatedGen, step);
+      setElutionLog(await idbGetAll<ElutionLogEntry>(db, STORE_ELUTION_LOG));
+      setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
+      setElutionForm({ ...elutionForm, measured_mCi: "", notes: "", elute_dt: nowLocalISO() });
+      const drift = elutionDriftPct(entry);
+      setToast({ msg: `Elution logged for ${shortId(gen.id)}${drift != null ? ` (drift ${drift >= 0 ? "+" : ""}${drift.toFixed(1)}% vs predicted)` : ""}.`, kind: "success" });
     } catch (e) {
       console.error(e);
-      setToast({ msg: `Failed to save hospital.`, kind: "error" });
+      setToast({ msg: "Failed to log elution.", kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
   }
 
-  async function deleteHospital(id: string) {
+  async function deleteElutionLogEntry(entry: ElutionLogEntry) {
     if (!db) return;
-    const h = hospitals.find((x) => x.id === id);
-    const proceed = confirm(`Delete hospital "${h?.name ?? id}"?`);
+    const proceed = confirm(`Delete logged elution of ${entry.generatorId} at ${entry.elute_dt}?`);
     if (!proceed) return;
+    const gen = generators.find((g) => g.id === entry.generatorId);
+    const step = beginUndoStep(`Delete elution of ${entry.generatorId}`);
     setBusy(true);
     try {
-      await idbDelete(db, STORE_HOSPITALS, id);
-      setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
-      setToast({ msg: `Hospital "${h?.name ?? id}" (${shortId(id)}) deleted.`, kind: "success" });
+      if (gen) {
+        const remaining = elutionLog.filter((e) => e.id !== entry.id);
+        const fit = fitGeneratorEfficiency(gen, remaining, planningCtx);
+        // If this was the elution the generator points at, fall back to the latest one left
+        let last: Pick<Generator, "last_eluted_dt" | "last_eluted_source"> = gen;
+        if (gen.last_eluted_dt === entry.elute_dt) {
+          const latestLog = remaining.filter((e) => e.generatorId === gen.id).reduce<string | undefined>((m, e) => (m == null || e.elute_dt > m ? e.elute_dt : m), undefined);
+          last = latestLog != null && latestLog >= entry.previous_elute_dt
+            ? { last_eluted_dt: latestLog, last_eluted_source: "log" }
+            : { last_eluted_dt: entry.previous_elute_dt, last_eluted_source: "manual" };
+        }
+        await idbDeleteElutionLog(db, entry.id, { ...gen, ...last, efficiency_fitted_pct: fit?.pct, efficiency_fit_n: fit?.n }, step);
+        setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
+      } else {
+        await idbDelete(db, STORE_ELUTION_LOG, entry.id, step);
+      }
+      setElutionLog(await idbGetAll<ElutionLogEntry>(db, STORE_ELUTION_LOG));
+      setToast({ msg: "Logged elution deleted; efficiency fit updated.", kind: "success" });
     } catch (e) {
       console.error(e);
-      setToast({ msg: `Failed to delete hospital.`, kind: "error" });
+      setToast({ msg: "Failed to delete logged elution.", kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
   }
 
-  // ---------- Orders Tab (Entry) ----------
-  const [orderForm, setOrderForm] = useState<Partial<Order>>({
-    id: "",
-    hospitalId: "",
-    product: "PSMA",
-    requested_mCi_at_cal: undefined as any,
-    calibration_dt: nowLocalISO(),
-    prep_minutes: 15,
-    travel_minutes: undefined as any,
+  const elutionLogRows = useMemo(() => {
+    return [...elutionLog]
+      .filter((e) => (elutionLogFilterGenId ? e.generatorId === elutionLogFilterGenId : true))
+      .sort((a, b) => b.elute_dt.localeCompare(a.elute_dt));
+  }, [elutionLog, elutionLogFilterGenId]);
+
+  // Mean drift of the recent entries per generator (predicted vs measured)
+  const elutionDriftByGen = useMemo(() => {
+    const out: Record<string, number> = {};
+    for (const g of generators) {
+      const drifts = elutionLog
+        .filter((e) => e.generatorId === g.id)
+        .sort((a, b) => b.elute_dt.localeCompare(a.elute_dt))
+        .slice(0, EFFICIENCY_FIT_WINDOW)
+        .map(elutionDriftPct)
+        .filter((d): d is number => d != null);
+      if (drifts.length > 0) out[g.id] = drifts.reduce((s, d) => s + d, 0) / drifts.length;
+    }
+    return out;
+  }, [generators, elutionLog]);
+
+  // ---------- Breakthrough QC ----------
+  const [breakthroughForm, setBreakthroughForm] = useState<{ generatorId: string; test_dt: string; breakthrough_pct: string; operator: string; notes: string }>({
+    generatorId: "", test_dt: nowLocalISO(), breakthrough_pct: "", operator: "", notes: "",
   });
-  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [settingsForm, setSettingsForm] = useState<{ limit: string; interval: string } | null>(null);
 
-  function onHospitalSelect(hid: string) {
-    const hos = hospitals.find((h) => h.id === hid);
-    setOrderForm((f) => ({ ...f, hospitalId: hid, travel_minutes: hos ? hos.travel_minutes : undefined as any }));
+  async function saveSettings(next: AppSettings, step?: UndoStep) {
+    if (!db) return;
+    await idbPut(db, STORE_SETTINGS, next, step);
+    setSettings(next);
   }
 
-  function isPotentialDuplicateOrder(candidate: Order, existingOrders: Order[]): { sameByFields: boolean; idExists: boolean } {
-    const sameByFields = existingOrders.some((o) =>
-      o.id !== candidate.id &&
-      o.hospitalId === candidate.hospitalId &&
-      o.product === candidate.product &&
-      formatLocal(parseLocalDateTimeYYYYMMDDTHHMM(o.calibration_dt)) === formatLocal(parseLocalDateTimeYYYYMMDDTHHMM(candidate.calibration_dt))
-    );
-    const idExists = existingOrders.some((o) => o.id === candidate.id);
-    return { sameByFields, idExists };
+  async function changeActivityUnit(unit: ActivityUnit) {
+    const step = beginUndoStep(`Show activities in ${unit}`);
+    try {
+      await saveSettings({ ...settings, activity_unit: unit }, step);
+      setToast({ msg: `Activities shown in ${unit}.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save unit preference.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setTimeout(() => setToast(null), 3500);
+    }
   }
 
-  function canFulfillOrder(candidate: Order, existingOrders: Order[], currentGenerators: Generator[]): boolean {
-    const trialOrders = [...existingOrders.filter((o) => o.id !== candidate.id), candidate];
-    const baselineGens = normalizeDailyWear(currentGenerators.map((g) => ({ ...g, total_eluted_today_mCi: 0 })), todayLocalDate());
-    const { orders: reassigned } = assignOrdersEfficient(trialOrders, baselineGens, { minLockMinutes });
-    const found = reassigned.find((o) => o.id === candidate.id);
-    return !!found && (found.assignedGeneratorIds?.length ?? 0) > 0;
+  // Committed on blur so a half-typed number never reaches the assigners
+  async function changeMaxGeneratorsPerDose(n: number) {
+    if (!Number.isFinite(n) || n < 2) return;
+    const step = beginUndoStep(`Combine up to ${Math.floor(n)} generators`);
+    try {
+      await saveSettings({ ...settings, max_generators_per_dose: Math.floor(n) }, step);
+      setToast({ msg: `Doses may combine up to ${Math.floor(n)} generators.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save combination limit.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setTimeout(() => setToast(null), 3500);
+    }
   }
 
-  function clearOrderForm() {
-    setOrderForm({ id: "", hospitalId: "", product: "PSMA", requested_mCi_at_cal: undefined as any, calibration_dt: nowLocalISO(), prep_minutes: 15, travel_minutes: undefined as any });
-    setEditingOrderId(null);
+  async function saveBreakthroughSettings() {
+    if (!settingsForm) return;
+    const limit = Number(settingsForm.limit);
+    const interval = Number(settingsForm.interval);
+    if (!Number.isFinite(limit) || limit <= 0) { alert("Breakthrough limit must be > 0 %."); return; }
+    if (!Number.isFinite(interval) || interval <= 0) { alert("Test interval must be > 0 days."); return; }
+    const step = beginUndoStep("Save breakthrough settings");
+    setBusy(true);
+    try {
+      await saveSettings({ ...settings, breakthrough_limit_pct: limit, breakthrough_interval_days: interval }, step);
+      setSettingsForm(null);
+      setToast({ msg: "Breakthrough QC settings saved.", kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save settings.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
   }
 
-  function validateOrderPayload(p: Order): string | null {
-    if (!p.hospitalId) return "Select hospital.";
-    if (!["PSMA", "Dotatate", "Research"].includes(p.product)) return "Invalid product.";
-    if (!Number.isFinite(p.requested_mCi_at_cal) || p.requested_mCi_at_cal <= 0) return "Requested mCi must be > 0.";
-    if (!Number.isFinite(p.prep_minutes) || p.prep_minutes < 0) return "Prep minutes must be ≥ 0.";
-    if (!Number.isFinite(p.travel_minutes) || p.travel_minutes < 0) return "Travel minutes must be ≥ 0.";
-    return null;
+  async function recordBreakthroughTest() {
+    if (!db) return;
+    const gen = generators.find((g) => g.id === breakthroughForm.generatorId);
+    if (!gen) { alert("Select generator"); return; }
+    const pct = Number(breakthroughForm.breakthrough_pct);
+    if (breakthroughForm.breakthrough_pct.trim() === "" || !Number.isFinite(pct) || pct < 0) { alert("Breakthrough must be ≥ 0 %."); return; }
+    if (!breakthroughForm.operator.trim()) { alert("Operator is required"); return; }
+    const testDt = parseLocalDateTimeYYYYMMDDTHHMM(breakthroughForm.test_dt);
+    if (isNaN(testDt.getTime())) { alert("Invalid test date/time"); return; }
+
+    const entry: BreakthroughTest = {
+      id: genId("BT"),
+      generatorId: gen.id,
+      test_dt: formatLocal(testDt),
+      breakthrough_pct: pct,
+      operator: breakthroughForm.operator.trim(),
+      notes: breakthroughForm.notes.trim() || undefined,
+    };
+    const step = beginUndoStep("Record breakthrough test");
+    setBusy(true);
+    try {
+      await idbPut(db, STORE_BREAKTHROUGH_TESTS, entry, step);
+      setBreakthroughTests(await idbGetAll<BreakthroughTest>(db, STORE_BREAKTHROUGH_TESTS));
+      setBreakthroughForm({ ...breakthroughForm, breakthrough_pct: "", notes: "", test_dt: nowLocalISO() });
+      const out = pct > settings.breakthrough_limit_pct;
+      setToast({
+        msg: out
+          ? `Breakthrough ${formatBreakthroughPct(pct)}% exceeds limit; ${shortId(gen.id)} excluded from planning.`
+          : `Breakthrough test recorded for ${shortId(gen.id)}.`,
+        kind: out ? "error" : "success",
+      });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to record breakthrough test.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
   }
 
-  async function saveOrder() {
+  async function deleteBreakthroughTest(entry: BreakthroughTest) {
     if (!db) return;
-    let id = ((editingOrderId ?? orderForm.id) ?? "").trim();
-    const isEditing = !!editingOrderId;
-    if (!isEditing && !id) id = genOrderIdDateBased(orderForm.hospitalId ?? undefined, orderForm.product ?? undefined);
-    if (!id) { alert("Order ID is required"); return; }
+    const proceed = confirm(`Delete breakthrough test of ${entry.generatorId} at ${entry.test_dt}?`);
+    if (!proceed) return;
+    const step = beginUndoStep(`Delete breakthrough test of ${entry.generatorId}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_BREAKTHROUGH_TESTS, entry.id, step);
+      setBreakthroughTests(await idbGetAll<BreakthroughTest>(db, STORE_BREAKTHROUGH_TESTS));
+      setToast({ msg: "Breakthrough test deleted.", kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to delete breakthrough test.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  const breakthroughRows = useMemo(() => {
+    return [...breakthroughTests].sort((a, b) => b.test_dt.localeCompare(a.test_dt));
+  }, [breakthroughTests]);
+
+  // ---------- Generator models (yield curves) ----------
+  const [modelForm, setModelForm] = useState<{ id: string; name: string; vendor: string; curveText: string; fitY0: string; fitK: string }>({
+    id: "", name: "", vendor: "", curveText: "", fitY0: "", fitK: "",
+  });
+
+  async function addOrUpdateGeneratorModel() {
+    if (!db) return;
+    let id = modelForm.id.trim();
+    if (!id) id = genId("M");
+    if (!modelForm.name.trim()) { alert("Model name is required"); return; }
+    const curve = parseYieldCurve(modelForm.curveText);
+    const y0 = Number(modelForm.fitY0), k = Number(modelForm.fitK);
+    const hasFit = modelForm.fitY0.trim() !== "" && Number.isFinite(y0) && y0 > 0 && Number.isFinite(k) && k >= 0;
+    if (curve.length === 0 && !hasFit) { alert("Enter a yield table (age_days:yield_pct, …) or a fitted curve (y0, k)."); return; }
+    if (curve.some((p) => p.age_days < 0 || p.yield_pct < 0 || p.yield_pct > 100)) { alert("Yield table points need age ≥ 0 and yield between 0 and 100."); return; }
+    const payload: GeneratorModel = {
+      id,
+      name: modelForm.name.trim(),
+      vendor: modelForm.vendor.trim() || undefined,
+      yield_curve: curve.length > 0 ? curve : undefined,
+      yield_fit: curve.length === 0 && hasFit ? { y0_pct: y0, k_per_day: k } : undefined,
+    };
+    const step = beginUndoStep("Save generator model");
+    setBusy(true);
+    try {
+      await idbPut(db, STORE_GENERATOR_MODELS, payload, step);
+      setGeneratorModels(await idbGetAll<GeneratorModel>(db, STORE_GENERATOR_MODELS));
+      setModelForm({ id: "", name: "", vendor: "", curveText: "", fitY0: "", fitK: "" });
+      setToast({ msg: `Generator model "${payload.name}" saved.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save generator model.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function deleteGeneratorModel(id: string) {
+    if (!db) return;
+    const m = generatorModels.find((x) => x.id === id);
+    const users = generators.filter((g) => g.modelId === id).length;
+    const proceed = confirm(`Delete generator model "${m?.name ?? id}"?${users > 0 ? ` ${users} generator(s) will fall back to their nominal efficiency.` : ""}`);
+    if (!proceed) return;
+    const step = beginUndoStep(`Delete generator model ${id}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_GENERATOR_MODELS, id, step);
+      setGeneratorModels(await idbGetAll<GeneratorModel>(db, STORE_GENERATOR_MODELS));
+      setToast({ msg: `Generator model "${m?.name ?? id}" deleted.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to delete generator model.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Hospitals Tab ----------
+  const [hospitalForm, setHospitalForm] = useState<Partial<Hospital>>({ id: "", name: "", travel_minutes: undefined });
+
+  async function addOrUpdateHospital() {
+    if (!db) return;
+    let id = (hospitalForm.id ?? "").trim();
+    if (!id) id = genId("H");
+    if (!hospitalForm.name || (hospitalForm.name ?? "").trim() === "") { alert("Hospital name is required"); return; }
+    // The travel matrix is edited on its own; the form's copy may predate those edits
+    const stored = await idbGet<Hospital>(db, STORE_HOSPITALS, id);
+    const payload: Hospital = {
+      id,
+      name: hospitalForm.name!,
+      travel_minutes: Number(hospitalForm.travel_minutes ?? 0),
+      elute_window_early_min: Number(hospitalForm.elute_window_early_min ?? 0),
+      elute_window_late_min: Number(hospitalForm.elute_window_late_min ?? 0),
+      labeling_yield_pct: hospitalForm.labeling_yield_pct != null && Number.isFinite(hospitalForm.labeling_yield_pct) ? Number(hospitalForm.labeling_yield_pct) : undefined,
+      overage_pct: hospitalForm.overage_pct != null && Number.isFinite(hospitalForm.overage_pct) ? Number(hospitalForm.overage_pct) : undefined,
+      travel_between: stored?.travel_between,
+    };
+    if (payload.labeling_yield_pct != null && (payload.labeling_yield_pct <= 0 || payload.labeling_yield_pct > 100)) { alert("Labeling yield override must be between 0 and 100 %."); return; }
+    if (payload.overage_pct != null && payload.overage_pct < 0) { alert("Overage override must be ≥ 0 %."); return; }
+    const step = beginUndoStep(`Save hospital ${payload.name}`);
+    setBusy(true);
+    try {
+      await idbPut(db, STORE_HOSPITALS, payload, step);
+      setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
+      setHospitalForm({ id: "", name: "", travel_minutes: undefined });
+      setToast({ msg: `Hospital "${payload.name}" (${shortId(payload.id)}) saved.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: `Failed to save hospital.`, kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function deleteHospital(id: string) {
+    if (!db) return;
+    const h = hospitals.find((x) => x.id === id);
+    const [liveUses, futureUses] = await Promise.all([STORE_ORDERS, STORE_FUTURE_ORDERS].map((store) => idbGetByIndex<Order>(db, store, "hospitalId", id)));
+    const inUse = liveUses.length + futureUses.length + recurringTemplates.filter((r) => r.hospitalId === id).length;
+    if (inUse > 0) { alert(`Hospital "${h?.name ?? id}" is used by ${inUse} order(s) or recurring order(s); change or delete those first.`); return; }
+    const proceed = confirm(`Delete hospital "${h?.name ?? id}"?`);
+    if (!proceed) return;
+    const step = beginUndoStep(`Delete hospital ${h?.name ?? id}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_HOSPITALS, id, step);
+      setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
+      setToast({ msg: `Hospital "${h?.name ?? id}" (${shortId(id)}) deleted.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: `Failed to delete hospital.`, kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Products Tab (catalog) ----------
+  const [productForm, setProductForm] = useState<{ id: string; name: string; default_prep_minutes: string; labeling_yield_pct: string; overage_pct: string; allow_multi_generator: boolean; max_activity: string }>({
+    id: "", name: "", default_prep_minutes: "15", labeling_yield_pct: "100", overage_pct: "0", allow_multi_generator: false, max_activity: "",
+  });
+
+  async function addOrUpdateProduct() {
+    if (!db) return;
+    const id = productForm.id.trim();
+    if (!id) { alert("Product code is required"); return; }
+    const prep = Number(productForm.default_prep_minutes);
+    const yieldPct = Number(productForm.labeling_yield_pct);
+    const overagePct = Number(productForm.overage_pct || 0);
+    const maxActivity = productForm.max_activity.trim() === "" ? undefined : unitToMCi(Number(productForm.max_activity), settings.activity_unit);
+    if (!Number.isFinite(prep) || prep < 0) { alert("Default prep minutes must be ≥ 0."); return; }
+    if (!Number.isFinite(yieldPct) || yieldPct <= 0 || yieldPct > 100) { alert("Labeling yield must be between 0 and 100 %."); return; }
+    if (!Number.isFinite(overagePct) || overagePct < 0) { alert("Overage must be ≥ 0 %."); return; }
+    if (maxActivity != null && (!Number.isFinite(maxActivity) || maxActivity <= 0)) { alert("Maximum activity must be > 0 (or blank for no limit)."); return; }
+    const payload: Product = {
+      id,
+      name: productForm.name.trim() || id,
+      default_prep_minutes: prep,
+      labeling_yield_pct: yieldPct,
+      overage_pct: overagePct,
+      allow_multi_generator: productForm.allow_multi_generator,
+      max_activity_mCi: maxActivity,
+    };
+    const step = beginUndoStep(`Save product ${payload.name}`);
+    setBusy(true);
+    try {
+      await idbPut(db, STORE_PRODUCTS, payload, step);
+      setProducts(await idbGetAll<Product>(db, STORE_PRODUCTS));
+      setProductForm({ id: "", name: "", default_prep_minutes: "15", labeling_yield_pct: "100", overage_pct: "0", allow_multi_generator: false, max_activity: "" });
+      setToast({ msg: `Product "${payload.name}" saved.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: `Failed to save product.`, kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function deleteProduct(id: string) {
+    if (!db) return;
+    // Read from the product index so orders older than the loaded range still count
+    const [liveUses, futureUses] = await Promise.all([STORE_ORDERS, STORE_FUTURE_ORDERS].map((store) => idbGetByIndex<Order>(db, store, "product", id)));
+    const inUse = liveUses.length + futureUses.length + recurringTemplates.filter((r) => r.product === id).length;
+    if (inUse > 0) { alert(`Product ${id} is used by ${inUse} order(s) or recurring order(s); change or delete those first.`); return; }
+    const proceed = confirm(`Delete product "${id}"?`);
+    if (!proceed) return;
+    const step = beginUndoStep(`Delete product ${id}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_PRODUCTS, id, step);
+      setProducts(await idbGetAll<Product>(db, STORE_PRODUCTS));
+      setToast({ msg: `Product "${id}" deleted.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: `Failed to delete product.`, kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Recurring Tab ----------
+  const emptyRecurringForm = (): Partial<RecurringOrder> & { skip_text: string } => ({
+    id: "", hospitalId: "", product: products[0]?.id ?? "PSMA", requested_mCi_at_cal: undefined, calibration_time: "08:00", prep_minutes: 15,
+    weekdays: [], every_n_weeks: 1, start_date: todayLocalDate(), end_date: "", skip_dates: [], skip_text: "",
+  });
+  const [recurringForm, setRecurringForm] = useState<Partial<RecurringOrder> & { skip_text: string }>(emptyRecurringForm);
+  const [editingRecurringId, setEditingRecurringId] = useState<string | null>(null);
+
+  // Vault occurrences from today on; promoted ones have left the vault
+  function pendingOccurrences(templateId: string): Order[] {
+    const today = todayLocalDate();
+    return futureOrders.filter((o) => o.recurring_id === templateId && localDateStringFromISO(o.calibration_dt) >= today);
+  }
+
+  async function materializeRecurring(templates: RecurringOrder[], existing: Order[], step?: UndoStep): Promise<number> {
+    if (!db) return 0;
+    const topUp = topUpRecurring(templates, hospitals, todayLocalDate(), settings.recurring_horizon_days, takenOccurrences([...orders, ...existing]), facilityCalendar);
+    if (topUp.orders.length > 0) await idbBulkPut(db, STORE_FUTURE_ORDERS, topUp.orders, step);
+    await idbBulkPut(db, STORE_RECURRING, topUp.templates, step);
+    setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
+    setRecurringTemplates(await idbGetAll<RecurringOrder>(db, STORE_RECURRING));
+    return topUp.orders.length;
+  }
+
+  async function saveRecurringTemplate() {
+    if (!db) return;
+    const f = recurringForm;
+    const id = ((editingRecurringId ?? f.id) ?? "").trim() || genId("R");
+    const skipDates = f.skip_text.split(/[\s,]+/).filter(Boolean);
+    if (!f.hospitalId) { alert("Select hospital"); return; }
+    if (!productFor(f.product ?? "", planningCtx)) { alert("Invalid product."); return; }
+    if (!Number.isFinite(f.requested_mCi_at_cal) || (f.requested_mCi_at_cal ?? 0) <= 0) { alert("Requested activity must be > 0."); return; }
+    if (!/^\d{2}:\d{2}$/.test(f.calibration_time ?? "")) { alert("Calibration time must be HH:MM."); return; }
+    if (!f.weekdays || f.weekdays.length === 0) { alert("Pick at least one weekday."); return; }
+    if (!Number.isFinite(f.every_n_weeks) || (f.every_n_weeks ?? 0) < 1) { alert("Repeat interval must be at least 1 week."); return; }
+    if (!f.start_date) { alert("Start date is required."); return; }
+    if (f.end_date && f.end_date < f.start_date) { alert("End date must not be before the start date."); return; }
+    if (skipDates.some((d) => !/^\d{4}-\d{2}-\d{2}$/.test(d))) { alert("Skip dates must be YYYY-MM-DD, separated by commas."); return; }
+
+    const existing = recurringTemplates.find((t) => t.id === id);
+    let template: RecurringOrder = {
+      id,
+      hospitalId: f.hospitalId,
+      product: f.product!,
+      requested_mCi_at_cal: Number(f.requested_mCi_at_cal),
+      ordered_amount: f.ordered_unit ? f.ordered_amount : undefined,
+      ordered_unit: f.ordered_amount != null ? f.ordered_unit : undefined,
+      calibration_time: f.calibration_time!,
+      prep_minutes: Number(f.prep_minutes ?? 15),
+      weekdays: [...f.weekdays].sort((a, b) => a - b),
+      every_n_weeks: Math.floor(Number(f.every_n_weeks)),
+      start_date: f.start_date,
+      end_date: f.end_date || undefined,
+      skip_dates: skipDates,
+      materialized_through: existing?.materialized_through,
+      closed_dates: existing?.closed_dates,
+    };
+    // A new rule may produce dates that were already passed over; walk them again from today
+    const scheduleChanged = !!existing && (
+      existing.weekdays.join() !== template.weekdays.join() || existing.every_n_weeks !== template.every_n_weeks ||
+      existing.start_date !== template.start_date || existing.end_date !== template.end_date || existing.skip_dates.join() !== template.skip_dates.join()
+    );
+
+    // Unpromoted occurrences follow the new rule only if the user says so
+    const pending = existing ? pendingOccurrences(id) : [];
+    const regenerate = pending.length > 0 && confirm(`Update ${pending.length} future occurrence(s) of this recurring order that have not been promoted yet?`);
+
+    const step = beginUndoStep(`Save recurring order ${shortId(id)}`);
+    setBusy(true);
+    try {
+      let vault = futureOrders;
+      if (regenerate) {
+        for (const o of pending) await idbDelete(db, STORE_FUTURE_ORDERS, o.id, step);
+        vault = futureOrders.filter((o) => !pending.some((p) => p.id === o.id));
+      }
+      if (regenerate || scheduleChanged) template = { ...template, materialized_through: addDays(todayLocalDate(), -1), closed_dates: undefined };
+      await idbPut(db, STORE_RECURRING, template, step);
+      const created = await materializeRecurring([template], vault, step);
+      setRecurringForm(emptyRecurringForm());
+      setEditingRecurringId(null);
+      setToast({ msg: `Recurring order saved; ${created} occurrence(s) added to the Future Vault.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save recurring order.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  function onEditRecurring(t: RecurringOrder) {
+    setRecurringForm({ ...t, end_date: t.end_date ?? "", skip_text: t.skip_dates.join(", ") });
+    setEditingRecurringId(t.id);
+  }
+
+  async function deleteRecurringTemplate(id: string) {
+    if (!db) return;
+    const proceed = confirm(`Delete recurring order ${shortId(id)}?`);
+    if (!proceed) return;
+    const pending = pendingOccurrences(id);
+    const removePending = pending.length > 0 && confirm(`Also delete its ${pending.length} future occurrence(s) that have not been promoted yet?`);
+    const step = beginUndoStep(`Delete recurring order ${shortId(id)}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_RECURRING, id, step);
+      if (removePending) for (const o of pending) await idbDelete(db, STORE_FUTURE_ORDERS, o.id, step);
+      setRecurringTemplates(await idbGetAll<RecurringOrder>(db, STORE_RECURRING));
+      setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
+      if (editingRecurringId === id) { setEditingRecurringId(null); setRecurringForm(emptyRecurringForm()); }
+      setToast({ msg: `Recurring order ${shortId(id)} deleted.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to delete recurring order.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function materializeAllRecurring() {
+    const step = beginUndoStep("Materialize recurring orders");
+    setBusy(true);
+    try {
+      const created = await materializeRecurring(recurringTemplates, futureOrders, step);
+      setToast({ msg: `${created} occurrence(s) added through ${addDays(todayLocalDate(), settings.recurring_horizon_days - 1)}.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to materialize recurring orders.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function changeRecurringHorizon(days: number) {
+    if (!Number.isFinite(days) || days < 1) return;
+    const step = beginUndoStep(`Recurring horizon ${Math.floor(days)} days`);
+    try {
+      await saveSettings({ ...settings, recurring_horizon_days: Math.floor(days) }, step);
+      setToast({ msg: `Recurring orders kept ${Math.floor(days)} day(s) ahead.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save horizon.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Calendar Tab ----------
+  const [calendarForm, setCalendarForm] = useState<{ date: string; kind: "closed" | "open"; open_time: string; close_time: string; note: string }>({
+    date: todayLocalDate(), kind: "closed", open_time: "", close_time: "", note: "",
+  });
+
+  // Orders on each closed exception day, counted from the stores so past days are included
+  const [closedDayOrderCounts, setClosedDayOrderCounts] = useState<Record<string, number>>({});
+  useEffect(() => {
+    if (!db || page !== "calendar") return;
+    let stale = false;
+    const closed = facilityDays.filter((d) => d.kind === "closed").map((d) => d.id);
+    Promise.all(closed.map((day) => idbCountOrdersOnDay(db, day))).then((counts) => {
+      if (!stale) setClosedDayOrderCounts(Object.fromEntries(closed.map((day, i) => [day, counts[i]])));
+    });
+    return () => { stale = true; };
+  }, [db, page, facilityDays, orders, futureOrders]);
+
+  async function saveFacilityDay() {
+    if (!db) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(calendarForm.date)) { alert("Pick a date."); return; }
+    if (calendarForm.open_time && calendarForm.close_time && calendarForm.close_time <= calendarForm.open_time) { alert("Closing time must be after opening time."); return; }
+    const payload: FacilityDay = {
+      id: calendarForm.date,
+      kind: calendarForm.kind,
+      open_time: calendarForm.kind === "open" ? calendarForm.open_time || undefined : undefined,
+      close_time: calendarForm.kind === "open" ? calendarForm.close_time || undefined : undefined,
+      note: calendarForm.note.trim() || undefined,
+    };
+    const step = beginUndoStep(`Save calendar day ${payload.id}`);
+    setBusy(true);
+    try {
+      await idbPut(db, STORE_CALENDAR, payload, step);
+      setFacilityDays(await idbGetAll<FacilityDay>(db, STORE_CALENDAR));
+      const affected = await idbCountOrdersOnDay(db, payload.id);
+      setCalendarForm({ ...calendarForm, note: "" });
+      setToast({
+        msg: `${payload.id} marked ${payload.kind}.${payload.kind === "closed" && affected > 0 ? ` ${affected} order(s) fall on that day.` : ""}`,
+        kind: payload.kind === "closed" && affected > 0 ? "error" : "success",
+      });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save calendar day.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function deleteFacilityDay(id: string) {
+    if (!db) return;
+    const step = beginUndoStep(`Delete calendar day ${id}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_CALENDAR, id, step);
+      setFacilityDays(await idbGetAll<FacilityDay>(db, STORE_CALENDAR));
+      setToast({ msg: `${id} back to the regular schedule.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to delete calendar day.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function changeOperatingPattern(patch: Partial<Pick<AppSettings, "operating_weekdays" | "operating_open_time" | "operating_close_time" | "enforce_operating_hours">>) {
+    const step = beginUndoStep("Change operating schedule");
+    try {
+      await saveSettings({ ...settings, ...patch }, step);
+      setToast({ msg: "Operating schedule saved.", kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save operating hours.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Synthesis modules ----------
+  const [moduleForm, setModuleForm] = useState<{ id: string; name: string; active: boolean; minutes: Record<string, string> }>({ id: "", name: "", active: true, minutes: {} });
+
+  async function addOrUpdateModule() {
+    if (!db) return;
+    const id = moduleForm.id.trim();
+    if (!id) { alert("Module ID is required"); return; }
+    const synthesis_minutes: Record<string, number> = {};
+    for (const [code, raw] of Object.entries(moduleForm.minutes)) {
+      if (raw.trim() === "") continue;
+      const v = Number(raw);
+      if (!Number.isFinite(v) || v <= 0) { alert(`Synthesis minutes for ${code} must be > 0 (or blank for the product's prep time).`); return; }
+      synthesis_minutes[code] = v;
+    }
+    const payload: SynthesisModule = { id, name: moduleForm.name.trim() || id, active: moduleForm.active, synthesis_minutes };
+    const step = beginUndoStep(`Save synthesis module ${id}`);
+    setBusy(true);
+    try {
+      await idbPut(db, STORE_MODULES, payload, step);
+      setSynthesisModules(await idbGetAll<SynthesisModule>(db, STORE_MODULES));
+      setModuleForm({ id: "", name: "", active: true, minutes: {} });
+      setToast({ msg: `Module "${payload.name}" saved. Rescan to apply.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save module.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  async function deleteModule(id: string) {
+    if (!db) return;
+    const proceed = confirm(`Delete synthesis module "${id}"?`);
+    if (!proceed) return;
+    const step = beginUndoStep(`Delete synthesis module ${id}`);
+    setBusy(true);
+    try {
+      await idbDelete(db, STORE_MODULES, id, step);
+      setSynthesisModules(await idbGetAll<SynthesisModule>(db, STORE_MODULES));
+      setToast({ msg: `Module "${id}" deleted. Rescan to apply.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to delete module.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // Closed days and out-of-hours elutions go through only after confirmation
+  function confirmFacility(p: Order): boolean {
+    const issue = facilityIssue(facilityCalendar, p);
+    return !issue || confirm(`${issue}. Continue anyway?`);
+  }
+
+  // ---------- Orders Tab (Entry) ----------
+  const [orderForm, setOrderForm] = useState<Partial<Order>>({
+    id: "",
+    hospitalId: "",
+    product: "PSMA",
+    requested_mCi_at_cal: undefined,
+    calibration_dt: nowLocalISO(),
+    prep_minutes: 15,
+    travel_minutes: undefined,
+  });
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [expandedTraceId, setExpandedTraceId] = useState<string | null>(null);
+  const [forecastProductId, setForecastProductId] = useState<string>("");
+  const [orderSuggestions, setOrderSuggestions] = useState<{ message: string; suggestions: OrderSuggestion[] } | null>(null);
+
+  function onProductSelect(code: string) {
+    const product = products.find((p) => p.id === code);
+    setOrderForm((f) => ({ ...f, product: code, prep_minutes: product ? product.default_prep_minutes : f.prep_minutes }));
+  }
+
+  function onHospitalSelect(hid: string) {
+    const hos = hospitals.find((h) => h.id === hid);
+    setOrderForm((f) => ({
+      ...f,
+      hospitalId: hid,
+      travel_minutes: hos ? hos.travel_minutes : undefined,
+      elute_window_early_min: hos?.elute_window_early_min ?? 0,
+      elute_window_late_min: hos?.elute_window_late_min ?? 0,
+    }));
+  }
+
+  function isPotentialDuplicateOrder(candidate: Order, existingOrders: Order[]): { sameByFields: boolean; idExists: boolean } {
+    const sameByFields = existingOrders.some((o) =>
+      o.id !== candidate.id &&
+      o.hospitalId === candidate.hospitalId &&
+      o.product === candidate.product &&
+      formatLocal(parseLocalDateTimeYYYYMMDDTHHMM(o.calibration_dt)) === formatLocal(parseLocalDateTimeYYYYMMDDTHHMM(candidate.calibration_dt))
+    );
+    const idExists = existingOrders.some((o) => o.id === candidate.id);
+    return { sameByFields, idExists };
+  }
+
+  function baselineGenerators(currentGenerators: Generator[]): Generator[] {
+    return normalizeDailyWear(currentGenerators.map((g) => ({ ...g, total_eluted_today_mCi: 0 })), todayLocalDate());
+  }
+
+  function canFulfillOrder(candidate: Order, existingOrders: Order[], currentGenerators: Generator[]): boolean {
+    return orderIsFeasible(candidate, existingOrders, baselineGenerators(currentGenerators), { minLockMinutes, strategy: assignmentStrategy, ctx: planningCtx });
+  }
+
+  function showOrderSuggestions(candidate: Order, existingOrders: Order[], currentGenerators: Generator[], message: string) {
+    const suggestions = suggestOrderAlternatives(candidate, existingOrders, baselineGenerators(currentGenerators), { minLockMinutes, strategy: assignmentStrategy, ctx: planningCtx });
+    setOrderSuggestions({ message, suggestions });
+  }
+
+  // Fill the form from a suggestion, keeping the unit the hospital ordered in
+  function applyOrderSuggestion(s: OrderSuggestion) {
+    const ordered = orderForm.ordered_unit
+      ? { ordered_amount: Number(mCiToUnit(s.requested_mCi_at_cal, orderForm.ordered_unit).toFixed(ACTIVITY_DIGITS[orderForm.ordered_unit])) }
+      : {};
+    setOrderForm({ ...orderForm, calibration_dt: s.calibration_dt, requested_mCi_at_cal: s.requested_mCi_at_cal, ...ordered });
+    setOrderSuggestions(null);
+    if (s.kind === "generator") {
+      setToast({ msg: `${s.label}. Record that elution before saving the order.`, kind: "info" });
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  function clearOrderForm() {
+    setOrderForm({ id: "", hospitalId: "", product: "PSMA", requested_mCi_at_cal: undefined, calibration_dt: nowLocalISO(), prep_minutes: 15, travel_minutes: undefined });
+    setEditingOrderId(null);
+    setOrderSuggestions(null);
+  }
+
+  // Product must be in the catalog and the dose within its per-dose maximum
+  function validateProductRules(p: Order): string | null {
+    const product = planningCtx.productsById?.[p.product];
+    if (!product) return "Invalid product.";
+    if (product.max_activity_mCi != null && p.requested_mCi_at_cal > product.max_activity_mCi) {
+      return `${product.name} allows at most ${formatActivityWithUnit(product.max_activity_mCi, settings.activity_unit)} per dose.`;
+    }
+    return null;
+  }
+
+  function validateOrderPayload(p: Order): string | null {
+    if (!p.hospitalId) return "Select hospital.";
+    if (!Number.isFinite(p.requested_mCi_at_cal) || p.requested_mCi_at_cal <= 0) return "Requested activity must be > 0.";
+    const productErr = validateProductRules(p);
+    if (productErr) return productErr;
+    if (!Number.isFinite(p.prep_minutes) || p.prep_minutes < 0) return "Prep minutes must be ≥ 0.";
+    if (!Number.isFinite(p.travel_minutes) || p.travel_minutes < 0) return "Travel minutes must be ≥ 0.";
+    if ((p.elute_window_early_min ?? 0) < 0 || (p.elute_window_late_min ?? 0) < 0) return "Elute window minutes must be ≥ 0.";
+    return null;
+  }
+
+  // A batch is one synthesis, so every dose in it must be the same product
+  function validateBatchMembership(p: Order, existingOrders: Order[]): string | null {
+    if (!p.batchId) return null;
+    const key = batchKey(p);
+    const other = existingOrders.find((o) => o.id !== p.id && o.batchId && batchKey(o) === key && o.product !== p.product);
+    return other ? `Batch ${p.batchId} already holds ${other.product} doses on that day.` : null;
+  }
+
+  async function saveOrder() {
+    if (!db) return;
+    let id = ((editingOrderId ?? orderForm.id) ?? "").trim();
+    const isEditing = !!editingOrderId;
+    if (!isEditing && !id) id = genOrderIdDateBased(orderForm.hospitalId ?? undefined, orderForm.product ?? undefined);
+    if (!id) { alert("Order ID is required"); return; }
     if (!orderForm.hospitalId) { alert("Select hospital"); return; }
 
     const payload: Order = {
       id,
       hospitalId: orderForm.hospitalId!,
-      product: (orderForm.product as any) ?? "PSMA",
+      product: orderForm.product ?? "PSMA",
       requested_mCi_at_cal: Number(orderForm.requested_mCi_at_cal ?? 0),
+      ordered_amount: orderForm.ordered_unit ? orderForm.ordered_amount : undefined,
+      ordered_unit: orderForm.ordered_amount != null ? orderForm.ordered_unit : undefined,
       calibration_dt: orderForm.calibration_dt ?? nowLocalISO(),
       prep_minutes: Number(orderForm.prep_minutes ?? 15),
       travel_minutes: Number(orderForm.travel_minutes ?? 0),
+      elute_window_early_min: Number(orderForm.elute_window_early_min ?? 0),
+      elute_window_late_min: Number(orderForm.elute_window_late_min ?? 0),
+      batchId: (orderForm.batchId ?? "").trim() || undefined,
+      recurring_id: orderForm.recurring_id,
+      delivery_run_id: orderForm.delivery_run_id,
+      status: orderForm.status,
+      status_history: orderForm.status_history,
+      cancel_reason: orderForm.cancel_reason,
     };
-    const err = validateOrderPayload(payload);
+    const err = validateOrderPayload(payload) ?? validateBatchMembership(payload, [...orders, ...futureOrders]);
     if (err) { alert(err); return; }
 
-    const dup = isPotentialDuplicateOrder(payload, orders);
+    // Same-day orders and any record with this ID, from the store rather than the loaded range
+    const calDateStr = localDateStringFromISO(payload.calibration_dt);
+    const storedWithId = await idbGet<Order>(db, STORE_ORDERS, payload.id);
+    const sameDay = await idbGetOrdersInDateRange(db, STORE_ORDERS, calDateStr, calDateStr);
+    const dup = isPotentialDuplicateOrder(payload, storedWithId ? [...sameDay, storedWithId] : sameDay);
     if (dup.idExists || dup.sameByFields) {
       const proceed = confirm(`Potential duplicate order${dup.idExists ? " (same ID)" : ""}${dup.sameByFields ? " (same hospital/product/time)" : ""}. Continue?`);
       if (!proceed) return;
     }
+    if (!confirmFacility(payload)) return;
 
-    const calDateStr = localDateStringFromISO(payload.calibration_dt);
     const todayStr = todayLocalDate();
 
     if (calDateStr === todayStr) {
       if (!canFulfillOrder(payload, orders, generators)) {
-        alert("This order cannot be fulfilled today given current generators and lock window.");
-        return;
-      }
-      setBusy(true);
-      try {
-        await idbPut(db, STORE_ORDERS, payload);
-        const ordsNow = await idbGetAll<Order>(db, STORE_ORDERS);
-        setOrders(ordsNow);
-
-        const reassigned = runRescan(ordsNow, generators);
-        const updatedGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
-        await idbWriteRescanAtomically(db, reassigned.orders, updatedGens);
-
-        setOrders(await idbGetAll<Order>(db, STORE_ORDERS));
-        setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
-        clearOrderForm();
-
-        setToast({ msg: buildOrderProcessedConfirmation(payload, hospitals), kind: "success" });
+        showOrderSuggestions(payload, orders, generators, "This order cannot be fulfilled today given current generators and lock window.");
+        return;
+      }
+      const step = beginUndoStep(`Save order ${shortId(payload.id)}`);
+      setBusy(true);
+      try {
+        await proposeRescan({
+          title: `Saving order ${shortId(payload.id)}`,
+          trial: [...orders.filter((o) => o.id !== payload.id), payload],
+          newOrder: payload,
+          successMsg: buildOrderProcessedConfirmation(payload, hospitals, settings.activity_unit),
+        }, step);
       } catch (e) {
         console.error(e);
         setToast({ msg: `Failed to save order.`, kind: "error" });
       } finally {
+        endUndoStep(step);
         setBusy(false);
         setTimeout(() => setToast(null), 3500);
       }
@@ -939,11 +1550,15 @@ function App() {
       const feasible = canFulfillOrder(payload, orders, generators);
       if (!feasible) {
         const proceed = confirm(`Warning: Generators are not feasible for ${calDateStr} given current lock window.\nSave to Future Orders anyway?`);
-        if (!proceed) return;
+        if (!proceed) {
+          showOrderSuggestions(payload, orders, generators, `Generators are not feasible for ${calDateStr} given current lock window.`);
+          return;
+        }
       }
+      const step = beginUndoStep(`Save order ${shortId(payload.id)}`);
       setBusy(true);
       try {
-        await idbPut(db, STORE_FUTURE_ORDERS, payload);
+        await idbPut(db, STORE_FUTURE_ORDERS, payload, step);
         setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
         clearOrderForm();
         setToast({ msg: `Saved to Future Orders vault for ${calDateStr}.`, kind: "success" });
@@ -951,6 +1566,7 @@ function App() {
         console.error(e);
         setToast({ msg: `Failed to save to Future Orders.`, kind: "error" });
       } finally {
+        endUndoStep(step);
         setBusy(false);
         setTimeout(() => setToast(null), 3500);
       }
@@ -959,65 +1575,307 @@ function App() {
 
   async function deleteOrder(id: string) {
     if (!db) return;
-    const proceed = confirm(`Delete order ${id}?`);
+    const o = orders.find((x) => x.id === id);
+    const proceed = confirm(o && isOrderFrozen(o)
+      ? `Order ${id} is already ${orderStatus(o)}; its activity has left the generator. Delete it anyway?`
+      : `Delete order ${id}?`);
     if (!proceed) return;
+    const step = beginUndoStep(`Delete order ${shortId(id)}`);
     setBusy(true);
     try {
-      await idbDelete(db, STORE_ORDERS, id);
-      const ords = await idbGetAll<Order>(db, STORE_ORDERS);
-      setOrders(ords);
-      const reassigned = runRescan(ords, generators);
-      const updatedGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
-      await idbWriteRescanAtomically(db, reassigned.orders, updatedGens);
-      setOrders(await idbGetAll<Order>(db, STORE_ORDERS));
-      setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
-      if (editingOrderId === id) setEditingOrderId(null);
-      setToast({ msg: `Order ${shortId(id)} deleted and assignments updated.`, kind: "success" });
+      await proposeRescan({
+        title: `Deleting order ${shortId(id)}`,
+        trial: orders.filter((o) => o.id !== id),
+        removeId: id,
+        successMsg: `Order ${shortId(id)} deleted and assignments updated.`,
+      }, step);
     } catch (e) {
       console.error(e);
       setToast({ msg: `Failed to delete order.`, kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
   }
 
   function onEditOrder(o: Order) {
+    if (isOrderFrozen(o) && !confirm(`Order ${o.id} is already ${orderStatus(o)}; edits will not change what was drawn. Edit it anyway?`)) return;
     setOrderForm({ ...o });
     setEditingOrderId(o.id);
   }
 
-  function runRescan(currentOrders: Order[], currentGenerators: Generator[]) {
+  // ---------- Order lifecycle ----------
+  async function changeOrderStatus(o: Order, status: OrderStatus, live: boolean) {
+    if (!db) return;
+    const by = operatorName.trim();
+    if (!by) { alert("Enter your operator initials in the header first."); return; }
+    let reason: string | undefined;
+    if (status === "cancelled") {
+      const answer = prompt(`Reason for cancelling order ${shortId(o.id)}?`);
+      if (answer == null) return;
+      if (!answer.trim()) { alert("A cancellation reason is required."); return; }
+      reason = answer.trim();
+    }
+    if (status === "eluted" && (o.assignedGeneratorIds?.length ?? 0) === 0 && !confirm(`Order ${shortId(o.id)} has no assigned generators. Mark it eluted anyway?`)) return;
+    const step = beginUndoStep(`Mark order ${shortId(o.id)} ${status}`);
+    setBusy(true);
+    try {
+      const updated = withOrderStatus(o, status, by, reason);
+      if (live) {
+        await proposeRescan({
+          title: `Marking order ${shortId(o.id)} ${status}`,
+          trial: orders.map((x) => (x.id === o.id ? updated : x)),
+          successMsg: `Order ${shortId(o.id)} ${status}.`,
+        }, step);
+      } else {
+        await idbPut(db, STORE_FUTURE_ORDERS, updated, step);
+        setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
+        setToast({ msg: `Order ${shortId(o.id)} ${status}.`, kind: "success" });
+      }
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to update order status.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  function runRescan(currentOrders: Order[], currentGenerators: Generator[], pinnedIds?: Set<string>) {
+    // Planned elutions stay on the working copies; last_eluted_dt only moves via the elution log
     const day = todayLocalDate();
     const baselineGens = normalizeDailyWear(currentGenerators.map((g) => ({ ...g })), day);
-    const { orders: reassignedOrders } = assignOrdersEfficient(currentOrders, baselineGens, { minLockMinutes });
-    const updatedById: Record<string, Generator> = Object.fromEntries(baselineGens.map((g: any) => [g.id, g]));
+    const { orders: reassignedOrders } = assignOrders(currentOrders, baselineGens, { minLockMinutes, strategy: assignmentStrategy, ctx: planningCtx, pinnedIds });
+    const updatedById: Record<string, Generator> = Object.fromEntries(baselineGens.map((g) => [g.id, g]));
     return { orders: reassignedOrders, updatedById };
   }
 
+  // Same baseline as runRescan, but other orders stay on their generators unless the new one cannot fit
+  function runIncrementalInsert(currentOrders: Order[], newOrderId: string, currentGenerators: Generator[]) {
+    const baselineGens = normalizeDailyWear(currentGenerators.map((g) => ({ ...g })), todayLocalDate());
+    const inserted = insertOrderIncrementally(currentOrders, newOrderId, baselineGens, { minLockMinutes, strategy: assignmentStrategy, ctx: planningCtx });
+    const updatedById: Record<string, Generator> = Object.fromEntries(baselineGens.map((g) => [g.id, g]));
+    return { ...inserted, updatedById };
+  }
+
+  function describeInsertion(r: IncrementalInsertion): string {
+    if (r.escalation === "spare") return "Placed in spare capacity; no other order moved.";
+    if (r.escalation === "unplaced") return "No room without losing another dose.";
+    const moved = r.moved.map(shortId).join(", ");
+    return r.escalation === "minimal" ? `Moved ${r.moved.length} order(s) to make room: ${moved}.` : `Needed a full reassignment; moved ${moved || "none"}.`;
+  }
+
   async function rescanAll() {
     if (!db) return;
+    const step = beginUndoStep("Rescan & Reassign");
     setBusy(true);
     try {
-      const reassigned = runRescan(orders, generators);
-      const updatedGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
-      await idbWriteRescanAtomically(db, reassigned.orders, updatedGens);
-      setOrders(await idbGetAll<Order>(db, STORE_ORDERS));
-      setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
-      setToast({ msg: `Rescan complete. Assignments updated.`, kind: "success" });
+      await proposeRescan({ title: "Rescan & Reassign", trial: orders, successMsg: "Rescan complete. Assignments updated." }, step);
     } catch (e) {
       console.error(e);
       setToast({ msg: `Rescan failed.`, kind: "error" });
     } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Rescan review ----------
+  // Reassigns the orders as they would be stored; writes at once unless an existing dose would move.
+  // Resolves true when written, false when held for review.
+  async function proposeRescan(p: Omit<PendingRescan, "changes" | "result" | "resultGens">, step?: UndoStep): Promise<boolean> {
+    if (!db) return false;
+    const incremental = p.newOrder && insertionMode === "incremental" ? runIncrementalInsert(p.trial, p.newOrder.id, generators) : null;
+    if (p.newOrder && incremental?.escalation === "unplaced") {
+      if (!p.promotedFromId) showOrderSuggestions(p.newOrder, orders.filter((o) => o.id !== p.newOrder?.id), generators, `${describeInsertion(incremental)} Nothing was saved.`);
+      setToast({ msg: `Order ${shortId(p.newOrder.id)} not saved: no room without losing another dose.`, kind: "error" });
+      return false;
+    }
+    const reassigned = incremental ?? runRescan(p.trial, generators);
+    const resultGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
+    const changes = rescanDiff(orders, reassigned.orders);
+    const pending: PendingRescan = { ...p, changes, result: reassigned.orders, resultGens };
+    if (incremental) pending.successMsg = `${p.successMsg} ${describeInsertion(incremental)}`;
+    // A cancelled order giving its generators back is not a dose moving
+    const cancelled = new Set(p.trial.filter((o) => orderStatus(o) === "cancelled").map((o) => o.id));
+    if (changes.some((c) => c.kind === "moved" && c.orderId !== p.newOrder?.id && !cancelled.has(c.orderId))) {
+      setPendingRescan(pending);
+      setToast({ msg: "Review the reassignment before it is saved.", kind: "info" });
+      return false;
+    }
+    await commitRescan(pending, "all", step);
+    return true;
+  }
+
+  // "keep" replays every other order's stored assignment and only places the new one
+  async function commitRescan(p: PendingRescan, mode: "all" | "keep", step?: UndoStep) {
+    if (!db) return;
+    let result = p.result;
+    let resultGens = p.resultGens;
+    if (mode === "keep") {
+      const held = new Set(p.trial.filter((o) => o.id !== p.newOrder?.id).map((o) => o.id));
+      const reassigned = runRescan(p.trial, generators, held);
+      result = reassigned.orders;
+      resultGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
+    }
+    if (p.removeId) await idbDelete(db, STORE_ORDERS, p.removeId, step);
+    await idbWriteRescanAtomically(db, result, resultGens, step);
+    if (p.promotedFromId) {
+      await idbDelete(db, STORE_FUTURE_ORDERS, p.promotedFromId, step);
+      setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
+    }
+    setOrders(await loadLiveOrders(db));
+    setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
+    setPendingRescan(null);
+    if (p.newOrder && !p.promotedFromId) clearOrderForm();
+    if (p.removeId && editingOrderId === p.removeId) setEditingOrderId(null);
+    const saved = p.newOrder ? result.find((o) => o.id === p.newOrder?.id) : undefined;
+    if (saved && (saved.assignedGeneratorIds ?? []).length === 0) {
+      setToast({ msg: `Order ${shortId(saved.id)} saved without generators; it could not be placed${mode === "keep" ? " without moving other orders" : ""}.`, kind: "error" });
+      return;
+    }
+    setToast({ msg: mode === "keep" ? `${p.successMsg} Other assignments left untouched.` : p.successMsg, kind: "success" });
+  }
+
+  async function resolvePendingRescan(mode: "all" | "keep" | "reject") {
+    if (!pendingRescan) return;
+    if (mode === "reject") {
+      setPendingRescan(null);
+      setToast({ msg: pendingRescan.rejectMsg ?? "Reassignment rejected; nothing was saved.", kind: "info" });
+      setTimeout(() => setToast(null), 3500);
+      return;
+    }
+    const step = beginUndoStep(pendingRescan.title);
+    setBusy(true);
+    try {
+      await commitRescan(pendingRescan, mode, step);
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save reassignment.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Delivery runs ----------
+  const routedRunsForDay = useMemo(() => {
+    const ordersById = Object.fromEntries([...orders, ...futureOrders].map((o) => [o.id, o]));
+    return deliveryRuns
+      .filter((r) => r.date === selectedDate)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((r) => routeDeliveryRun(r, ordersById, planningCtx.hospitalsById ?? {}));
+  }, [deliveryRuns, selectedDate, orders, futureOrders, planningCtx]);
+
+  // Persist runs, move the routed doses' travel times to match, and reassign today's live orders
+  async function persistDeliveryRuns(nextRuns: DeliveryRun[], removedId?: string) {
+    if (!db) return;
+    const step = beginUndoStep("Save delivery runs");
+    setBusy(true);
+    try {
+      if (removedId) await idbDelete(db, STORE_RUNS, removedId, step);
+      await idbBulkPut(db, STORE_RUNS, nextRuns.filter((r) => r.id !== removedId), step);
+      const runs = await idbGetAll<DeliveryRun>(db, STORE_RUNS);
+      setDeliveryRuns(runs);
+
+      const all = [...orders, ...futureOrders];
+      const liveChanged = applyRunsToOrders(orders, runs, hospitals, all);
+      const futChanged = applyRunsToOrders(futureOrders, runs, hospitals, all);
+      if (futChanged.length > 0) {
+        await idbBulkPut(db, STORE_FUTURE_ORDERS, futChanged, step);
+        setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
+      }
+
+      const ordersById = Object.fromEntries(all.map((o) => [o.id, o]));
+      const warnings = runs.flatMap((r) => routeDeliveryRun(r, ordersById, planningCtx.hospitalsById ?? {}).warnings.filter((w) => w.includes("after calibration")));
+      const summary = warnings.length > 0
+        ? { msg: `Delivery runs saved; ${warnings.length} stop(s) miss calibration.`, kind: "error" as const }
+        : { msg: `Delivery runs saved; ${liveChanged.length + futChanged.length} order(s) retimed.`, kind: "success" as const };
+
+      // Retimed live orders are stored with their reassignment, through the same review as any rescan
+      if (liveChanged.length > 0) {
+        const retimed = Object.fromEntries(liveChanged.map((o) => [o.id, o]));
+        const written = await proposeRescan({
+          title: "Save delivery runs",
+          trial: orders.map((o) => retimed[o.id] ?? o),
+          successMsg: summary.msg,
+          rejectMsg: "Reassignment rejected; delivery runs saved, today's orders keep their previous travel times.",
+        }, step);
+        if (written && summary.kind === "error") setToast(summary);
+      } else {
+        setToast(summary);
+      }
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save delivery runs.", kind: "error" });
+    } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
   }
 
+  function updateDeliveryRun(run: DeliveryRun) {
+    persistDeliveryRuns([run]);
+  }
+
+  function addDeliveryRun() {
+    const count = deliveryRuns.filter((r) => r.date === selectedDate).length;
+    persistDeliveryRuns([{ id: genId("RUN"), date: selectedDate, name: `Run ${count + 1}`, stop_order_ids: [] }]);
+  }
+
+  function deleteDeliveryRun(run: DeliveryRun) {
+    if (!confirm(`Delete ${run.name}? Its doses go back to direct travel.`)) return;
+    persistDeliveryRuns([], run.id);
+  }
+
+  function moveRunStop(run: DeliveryRun, idx: number, delta: number) {
+    const stops = [...run.stop_order_ids];
+    const j = idx + delta;
+    if (j < 0 || j >= stops.length) return;
+    [stops[idx], stops[j]] = [stops[j], stops[idx]];
+    updateDeliveryRun({ ...run, stop_order_ids: stops });
+  }
+
+  // Courier minutes between two hospitals, stored on both so either side can be edited
+  async function setTravelBetween(aId: string, bId: string, raw: string) {
+    if (!db) return;
+    const minutes = raw === "" ? undefined : Number(raw);
+    if (minutes != null && (!Number.isFinite(minutes) || minutes < 0)) return;
+    const patch = (h: Hospital, otherId: string): Hospital => {
+      const next = { ...(h.travel_between ?? {}) };
+      if (minutes == null) delete next[otherId]; else next[otherId] = minutes;
+      return { ...h, travel_between: next };
+    };
+    const a = hospitals.find((h) => h.id === aId);
+    const b = hospitals.find((h) => h.id === bId);
+    if (!a || !b) return;
+    const step = beginUndoStep(`Travel ${a.name} ↔ ${b.name}`);
+    try {
+      await idbBulkPut(db, STORE_HOSPITALS, [patch(a, bId), patch(b, aId)], step);
+      setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
+      setToast({ msg: `Travel between ${a.name} and ${b.name} saved.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save travel time.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
   // ---------- Bundle Import/Export ----------
   async function exportBundle() {
-    const payload = { generators, hospitals, orders, future_orders: futureOrders, meta: { exportedAt: new Date().toISOString(), minLockMinutes, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone } };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+    if (!db) return;
+    const json = bundleJson(
+      { generators, hospitals, orders: await idbGetAll<Order>(db, STORE_ORDERS), future_orders: futureOrders, generator_models: generatorModels, elution_log: elutionLog, breakthrough_tests: breakthroughTests, products, recurring_orders: recurringTemplates, facility_calendar: facilityDays, synthesis_modules: synthesisModules, delivery_runs: deliveryRuns, settings },
+      { exportedAt: new Date().toISOString(), minLockMinutes, activityUnit: settings.activity_unit, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+    );
+    const blob = new Blob([json], { type: "application/json" });
     try {
       await saveBlobWithPicker(`ga68_planner_export_${new Date().toISOString().slice(0, 19)}`, blob, {
         description: "Ga-68 Planner Bundle",
@@ -1065,40 +1923,59 @@ function App() {
     if (!db) return;
     const file = ev.target.files?.[0];
     if (!file) return;
+    const step = beginUndoStep(`Import ${file.name}`);
     setBusy(true);
     try {
       const text = await file.text();
       const data = JSON.parse(text);
       const gens: Generator[] = data.generators ?? [];
-      const hosRaw: any[] = data.hospitals ?? [];
-      const hos: Hospital[] = hosRaw.map((h: any) => ({ id: h.id, name: h.name, travel_minutes: h.travel_minutes ?? (h.distance_km != null ? minutesFromDistance(h.distance_km) : 0) }));
-      const ords: Order[] = data.orders ?? [];
-      const fut: Order[] = data.future_orders ?? [];
-
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction([STORE_GENERATORS, STORE_HOSPITALS, STORE_ORDERS, STORE_FUTURE_ORDERS], "readwrite");
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error as any);
-        tx.onabort = () => reject(tx.error as any);
-        const stG = tx.objectStore(STORE_GENERATORS);
-        const stH = tx.objectStore(STORE_HOSPITALS);
-        const stO = tx.objectStore(STORE_ORDERS);
-        const stF = tx.objectStore(STORE_FUTURE_ORDERS);
-        gens.forEach(v => stG.put(v as any));
-        hos.forEach(v => stH.put(v as any));
-        ords.forEach(v => stO.put(v as any));
-        fut.forEach(v => stF.put(v as any));
-      });
+      const hosRaw: RawHospital[] = data.hospitals ?? [];
+      const hos: Hospital[] = hosRaw.map(hospitalFromRaw);
+      const ords: Order[] = (data.orders ?? []).map((o: Order) => ({ ...o, calibration_dt: normalizeCalibrationDt(o.calibration_dt) }));
+      const fut: Order[] = (data.future_orders ?? []).map((o: Order) => ({ ...o, calibration_dt: normalizeCalibrationDt(o.calibration_dt) }));
+      const models: GeneratorModel[] = data.generator_models ?? [];
+      const elog: ElutionLogEntry[] = data.elution_log ?? [];
+      const bt: BreakthroughTest[] = data.breakthrough_tests ?? [];
+      const prods: Product[] = data.products ?? [];
+      const rec: RecurringOrder[] = data.recurring_orders ?? [];
+      const calDays: FacilityDay[] = data.facility_calendar ?? [];
+      const mods: SynthesisModule[] = data.synthesis_modules ?? [];
+      const runs: DeliveryRun[] = data.delivery_runs ?? [];
+      const exportedUnit = data.meta?.activityUnit;
+      const metaUnit = isActivityUnit(exportedUnit) ? { activity_unit: exportedUnit } : {};
+      const importedSettings: AppSettings | null = data.settings || data.meta?.activityUnit ? { ...settings, ...data.settings, ...metaUnit, id: "app" } : null;
+
+      const imported: [string, { id: string }[]][] = [
+        [STORE_GENERATORS, gens], [STORE_HOSPITALS, hos], [STORE_ORDERS, ords], [STORE_FUTURE_ORDERS, fut],
+        [STORE_GENERATOR_MODELS, models], [STORE_ELUTION_LOG, elog], [STORE_BREAKTHROUGH_TESTS, bt], [STORE_PRODUCTS, prods],
+        [STORE_RECURRING, rec], [STORE_CALENDAR, calDays], [STORE_MODULES, mods], [STORE_RUNS, runs],
+        [STORE_SETTINGS, importedSettings ? [importedSettings] : []],
+      ];
+      await idbWriteAudited(
+        db,
+        imported.flatMap(([store, values]) => values.map((v) => ({ store, key: v.id, after: v }))),
+        { action: "import", summary: { store: STORE_ORDERS, after: { file: file.name, records: imported.reduce((n, [, values]) => n + values.length, 0) } }, step }
+      );
 
       setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
+      setGeneratorModels(await idbGetAll<GeneratorModel>(db, STORE_GENERATOR_MODELS));
+      setElutionLog(await idbGetAll<ElutionLogEntry>(db, STORE_ELUTION_LOG));
+      setBreakthroughTests(await idbGetAll<BreakthroughTest>(db, STORE_BREAKTHROUGH_TESTS));
+      setProducts(await idbGetAll<Product>(db, STORE_PRODUCTS));
+      setRecurringTemplates(await idbGetAll<RecurringOrder>(db, STORE_RECURRING));
+      setFacilityDays(await idbGetAll<FacilityDay>(db, STORE_CALENDAR));
+      setSynthesisModules(await idbGetAll<SynthesisModule>(db, STORE_MODULES));
+      setDeliveryRuns(await idbGetAll<DeliveryRun>(db, STORE_RUNS));
+      if (importedSettings) setSettings(importedSettings);
       setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
-      setOrders(await idbGetAll<Order>(db, STORE_ORDERS));
+      setOrders(await loadLiveOrders(db));
       setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
       setToast({ msg: "Bundle imported.", kind: "success" });
     } catch (e) {
       console.error(e);
       setToast({ msg: "Import failed.", kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -1107,35 +1984,39 @@ function App() {
   // ---------- Derived (LIVE + FUTURE) ----------
   const ordersWithCalcAll = useMemo(() => {
     return orders.map((o) => {
-      const { required, eluteDt } = requiredAtElute_mCi(o);
-      return { ...o, _requiredAtElute: required, _eluteDtObj: eluteDt } as any;
+      const { required, eluteDt } = orderEluteInfo(o, planningCtx);
+      return { ...o, _requiredAtElute: required, _eluteDtObj: eluteDt };
     });
-  }, [orders]);
+  }, [orders, planningCtx]);
 
-  const futureOrdersWithCalcAll = useMemo(() => {
-    return futureOrders.map((o) => {
-      const { required, eluteDt } = requiredAtElute_mCi(o);
-      return { ...o, _requiredAtElute: required, _eluteDtObj: eluteDt } as any;
-    });
-  }, [futureOrders]);
+  const batchesByKey = useMemo(() => batchSummaries([...orders, ...futureOrders], planningCtx), [orders, futureOrders, planningCtx]);
+
+  const forecast = useMemo(() => {
+    if (page !== "availability") return null;
+    const productCode = forecastProductId || products[0]?.id;
+    if (!productCode) return null;
+    return availabilityForecast(selectedDate, orders, generators, hospitals, productCode, { minLockMinutes, ctx: planningCtx });
+  }, [page, forecastProductId, products, selectedDate, orders, generators, hospitals, minLockMinutes, planningCtx]);
+  const forecastMax = useMemo(() => Math.max(0, ...(forecast?.cells.flat().filter((v): v is number => v != null) ?? [])), [forecast]);
 
   const ordersWithCalc = useMemo(() => {
     return ordersWithCalcAll
-      .filter((o: any) => localDateStringFromISO(o.calibration_dt) === selectedDate)
-      .filter((o: any) => (ordersFilterHospitalId ? o.hospitalId === ordersFilterHospitalId : true))
-      .filter((o: any) => (ordersFilterProduct ? o.product === ordersFilterProduct : true));
-  }, [ordersWithCalcAll, selectedDate, ordersFilterHospitalId, ordersFilterProduct]);
+      .filter((o) => localDateStringFromISO(o.calibration_dt) === selectedDate)
+      .filter((o) => (ordersFilterHospitalId ? o.hospitalId === ordersFilterHospitalId : true))
+      .filter((o: Order) => (ordersFilterProduct ? o.product === ordersFilterProduct : true))
+      .filter((o) => (ordersFilterStatus ? orderStatus(o) === ordersFilterStatus : true));
+  }, [ordersWithCalcAll, selectedDate, ordersFilterHospitalId, ordersFilterProduct, ordersFilterStatus]);
 
   const ordersTable = useMemo(() => {
     const genById: Record<string, Generator> = Object.fromEntries(generators.map((g) => [g.id, g]));
-    return ordersWithCalc.map((o: any) => {
+    return ordersWithCalc.map((o) => {
       const hospitalName = hospitals.find((h) => h.id === o.hospitalId)?.name ?? o.hospitalId;
       const assigned = o.assignedGeneratorIds ?? [];
       const eluteDtObj: Date = o._eluteDtObj;
       const availableTotal = assigned.reduce((sum: number, gid: string) => {
         const g = genById[gid];
         if (!g) return sum;
-        const avail = availableAtElute_mCi(g, eluteDtObj, minLockMinutes).available;
+        const avail = availableAtElute_mCi(g, eluteDtObj, minLockMinutes, planningCtx).available;
         return sum + avail;
       }, 0);
       const deltaStr = (o.assigned_delta_minutes ?? []).map((m: number, idx: number) => `${assigned[idx]}: ${Math.round(m)} min`).join("; ");
@@ -1151,20 +2032,44 @@ function App() {
         requestedAtCal: o.requested_mCi_at_cal,
         requiredAtElute: o._requiredAtElute,
         availableAtElute: availableTotal,
+        batch: batchLabel(o, batchesByKey),
+        batchRequiredAtElute: o.batchId ? batchesByKey[batchKey(o)]?.required ?? 0 : 0,
+        orderedUnit: o.ordered_unit as ActivityUnit | undefined,
+        orderedLabel: orderedActivityLabel(o, settings.activity_unit),
+        breakdown: requiredBreakdown(o, o._eluteDtObj, planningCtx),
+        trace: o.assignment_trace as AssignmentTrace | undefined,
+        facilityIssue: facilityIssue(facilityCalendar, o),
+        moduleId: o.assigned_module_id as string | undefined,
+        status: orderStatus(o),
+        statusHistory: (o.status_history ?? []) as OrderStatusChange[],
       };
     });
-  }, [ordersWithCalc, hospitals, generators, minLockMinutes]);
+  }, [ordersWithCalc, hospitals, generators, minLockMinutes, batchesByKey, planningCtx, settings.activity_unit, facilityCalendar]);
 
   // Upcoming (LIVE + FUTURE)
+  const upcomingLiveWithCalc = useMemo(() => {
+    return upcomingLive.map((o) => {
+      const { required, eluteDt } = orderEluteInfo(o, planningCtx);
+      return { ...o, _requiredAtElute: required, _eluteDtObj: eluteDt };
+    });
+  }, [upcomingLive, planningCtx]);
+
+  const upcomingFutureWithCalc = useMemo(() => {
+    return upcomingFuture.map((o) => {
+      const { required, eluteDt } = orderEluteInfo(o, planningCtx);
+      return { ...o, _requiredAtElute: required, _eluteDtObj: eluteDt };
+    });
+  }, [upcomingFuture, planningCtx]);
+
   const upcomingDayOrders = useMemo(() => {
-    const byDay: Record<string, any[]> = {};
+    const byDay: Record<string, typeof upcomingLiveWithCalc> = {};
     upcomingDays.forEach(d => { byDay[d] = []; });
 
-    ordersWithCalcAll.forEach((o: any) => {
+    upcomingLiveWithCalc.forEach((o) => {
       const d = localDateStringFromISO(o.calibration_dt);
       if (byDay[d]) byDay[d].push(o);
     });
-    futureOrdersWithCalcAll.forEach((o: any) => {
+    upcomingFutureWithCalc.forEach((o) => {
       const d = localDateStringFromISO(o.calibration_dt);
       if (byDay[d]) byDay[d].push(o);
     });
@@ -1177,16 +2082,18 @@ function App() {
     });
 
     return byDay;
-  }, [ordersWithCalcAll, futureOrdersWithCalcAll, upcomingDays]);
+  }, [upcomingLiveWithCalc, upcomingFutureWithCalc, upcomingDays]);
 
   // ---------- Future: update & delete ----------
   function validateFutureOrderPayload(p: Order): string | null {
     if (!p.hospitalId) return "Select hospital.";
-    if (!["PSMA", "Dotatate", "Research"].includes(p.product)) return "Invalid product.";
     if (!p.calibration_dt) return "Calibration date/time is required.";
-    if (!Number.isFinite(p.requested_mCi_at_cal) || p.requested_mCi_at_cal <= 0) return "Requested mCi must be > 0.";
+    if (!Number.isFinite(p.requested_mCi_at_cal) || p.requested_mCi_at_cal <= 0) return "Requested activity must be > 0.";
+    const productErr = validateProductRules(p);
+    if (productErr) return productErr;
     if (!Number.isFinite(p.prep_minutes) || p.prep_minutes < 0) return "Prep minutes must be ≥ 0.";
     if (!Number.isFinite(p.travel_minutes) || p.travel_minutes < 0) return "Travel minutes must be ≥ 0.";
+    if ((p.elute_window_early_min ?? 0) < 0 || (p.elute_window_late_min ?? 0) < 0) return "Elute window minutes must be ≥ 0.";
     return null;
   }
 
@@ -1205,17 +2112,21 @@ function App() {
     final.travel_minutes = Number(final.travel_minutes ?? 0);
     final.requested_mCi_at_cal = Number(final.requested_mCi_at_cal ?? 0);
 
-    const err = validateFutureOrderPayload(final);
+    const err = validateFutureOrderPayload(final) ?? validateBatchMembership(final, [...orders, ...futureOrders]);
     if (err) { setToast({ msg: `Cannot save: ${err}`, kind: "error" }); setTimeout(() => setToast(null), 3500); return; }
 
+    const step = beginUndoStep(`Save future order ${shortId(final.id)}`);
+    setBusy(true);
     try {
-      await idbPut(db, STORE_FUTURE_ORDERS, final);
+      await idbPut(db, STORE_FUTURE_ORDERS, final, step);
       setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
       setToast({ msg: `Future order ${shortId(final.id)} saved.`, kind: "success" });
     } catch (e) {
       console.error(e);
       setToast({ msg: `Failed to update future order.`, kind: "error" });
     } finally {
+      endUndoStep(step);
+      setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
   }
@@ -1226,14 +2137,18 @@ function App() {
     if (!cleanId) { setToast({ msg: "Cannot delete: missing ID.", kind: "error" }); setTimeout(() => setToast(null), 3500); return; }
     const proceed = confirm(`Delete future order ${cleanId}?`);
     if (!proceed) return;
+    const step = beginUndoStep(`Delete future order ${shortId(cleanId)}`);
+    setBusy(true);
     try {
-      await idbDelete(db, STORE_FUTURE_ORDERS, cleanId);
+      await idbDelete(db, STORE_FUTURE_ORDERS, cleanId, step);
       setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
       setToast({ msg: `Future order ${shortId(cleanId)} deleted.`, kind: "success" });
     } catch (e) {
       console.error(e);
       setToast({ msg: `Failed to delete future order.`, kind: "error" });
     } finally {
+      endUndoStep(step);
+      setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
   }
@@ -1246,9 +2161,18 @@ function App() {
       hospitalId: src.hospitalId,
       product: src.product,
       requested_mCi_at_cal: Number(src.requested_mCi_at_cal ?? 0),
+      ordered_amount: src.ordered_amount,
+      ordered_unit: src.ordered_unit,
       calibration_dt: cal,
       prep_minutes: Number(src.prep_minutes ?? 15),
       travel_minutes: Number(src.travel_minutes ?? 0),
+      elute_window_early_min: src.elute_window_early_min,
+      elute_window_late_min: src.elute_window_late_min,
+      batchId: src.batchId,
+      recurring_id: src.recurring_id,
+      status: src.status,
+      status_history: src.status_history,
+      cancel_reason: src.cancel_reason,
     };
   }
 
@@ -1257,6 +2181,7 @@ function App() {
     const payload = toLivePayload(fOrder);
     const err = validateOrderPayload(payload);
     if (err) { setToast({ msg: `Cannot promote: ${err}`, kind: "error" }); setTimeout(() => setToast(null), 3500); return; }
+    if (!confirmFacility(payload)) return;
 
     const calDateStr = localDateStringFromISO(payload.calibration_dt);
     const feasible = canFulfillOrder(payload, orders, generators);
@@ -1265,27 +2190,21 @@ function App() {
       if (!proceed) return;
     }
 
+    const step = beginUndoStep(`Promote order ${shortId(fOrder.id)}`);
     setBusy(true);
     try {
-      await idbPut(db, STORE_ORDERS, payload);
-      await idbDelete(db, STORE_FUTURE_ORDERS, fOrder.id); // remove from future
-      const ordsNow = await idbGetAll<Order>(db, STORE_ORDERS);
-      setOrders(ordsNow);
-      setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
-
-      // Rescan
-      const reassigned = runRescan(ordsNow, generators);
-      const updatedGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
-      await idbWriteRescanAtomically(db, reassigned.orders, updatedGens);
-
-      setOrders(await idbGetAll<Order>(db, STORE_ORDERS));
-      setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
-
-      setToast({ msg: buildOrderProcessedConfirmation(payload, hospitals), kind: "success" });
+      await proposeRescan({
+        title: `Promoting order ${shortId(fOrder.id)}`,
+        trial: [...orders.filter((o) => o.id !== payload.id), payload],
+        newOrder: payload,
+        promotedFromId: fOrder.id,
+        successMsg: buildOrderProcessedConfirmation(payload, hospitals, settings.activity_unit),
+      }, step);
     } catch (e) {
       console.error(e);
       setToast({ msg: "Failed to promote order.", kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -1300,6 +2219,7 @@ function App() {
     const payload = toLivePayload(fOrder, dayYYYYMMDD);
     const err = validateOrderPayload(payload);
     if (err) { setToast({ msg: `Cannot promote: ${err}`, kind: "error" }); setTimeout(() => setToast(null), 3500); return; }
+    if (!confirmFacility(payload)) return;
 
     const feasible = canFulfillOrder(payload, orders, generators);
     if (!feasible) {
@@ -1307,26 +2227,21 @@ function App() {
       if (!proceed) return;
     }
 
+    const step = beginUndoStep(`Promote order ${shortId(fOrder.id)} to ${dayYYYYMMDD}`);
     setBusy(true);
     try {
-      await idbPut(db, STORE_ORDERS, payload);
-      await idbDelete(db, STORE_FUTURE_ORDERS, fOrder.id);
-      const ordsNow = await idbGetAll<Order>(db, STORE_ORDERS);
-      setOrders(ordsNow);
-      setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
-
-      const reassigned = runRescan(ordsNow, generators);
-      const updatedGens = generators.map((g) => reassigned.updatedById[g.id] ?? g);
-      await idbWriteRescanAtomically(db, reassigned.orders, updatedGens);
-
-      setOrders(await idbGetAll<Order>(db, STORE_ORDERS));
-      setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
-
-      setToast({ msg: buildOrderProcessedConfirmation(payload, hospitals), kind: "success" });
+      await proposeRescan({
+        title: `Promoting order ${shortId(fOrder.id)} to ${dayYYYYMMDD}`,
+        trial: [...orders.filter((o) => o.id !== payload.id), payload],
+        newOrder: payload,
+        promotedFromId: fOrder.id,
+        successMsg: buildOrderProcessedConfirmation(payload, hospitals, settings.activity_unit),
+      }, step);
     } catch (e) {
       console.error(e);
       setToast({ msg: "Failed to promote order.", kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -1335,6 +2250,7 @@ function App() {
   // ---------- Future auto-assign (restore) ----------
   async function simulateAutoAssignFuture(dayYYYYMMDD?: string) {
     if (!db) return;
+    const step = beginUndoStep("Auto-assign future orders");
     setBusy(true);
     try {
       const target = dayYYYYMMDD
@@ -1350,17 +2266,14 @@ function App() {
       const sim = assignOrdersEfficientSim(
         target.map(o => ({ ...o })),           // copy future orders for sim
         generators.map(g => ({ ...g })),       // copy generators for sim-only
-        { minLockMinutes, respectLock: true, treatFirstUseMax: true, firstUseIgnoresLock: true }
+        {
+          minLockMinutes, respectLock: true, treatFirstUseMax: true, firstUseIgnoresLock: true,
+          ranking: assignmentStrategy === "optimal" ? "max_efficiency" : assignmentStrategy, ctx: planningCtx,
+        }
       );
 
       // Write back simulated assignments to future_orders store
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction([STORE_FUTURE_ORDERS], "readwrite");
-        const st = tx.objectStore(STORE_FUTURE_ORDERS);
-        sim.orders.forEach(o => st.put(o as any));
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error as any);
-      });
+      await idbBulkPut(db, STORE_FUTURE_ORDERS, sim.orders, step);
 
       setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
       setSimFutureMsgs(sim.messages);
@@ -1369,6 +2282,59 @@ function App() {
       console.error(e);
       setToast({ msg: "Future auto-assign failed.", kind: "error" });
     } finally {
+      endUndoStep(step);
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Multi-day planner ----------
+  async function changeFlushTime(key: "flush_morning_time" | "flush_evening_time", value: string) {
+    const step = beginUndoStep(key === "flush_morning_time" ? "Change morning flush" : "Change evening flush");
+    try {
+      await saveSettings({ ...settings, [key]: value }, step);
+      setToast({ msg: value ? `Flush set for ${value}.` : "Flush removed.", kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save flush time.", kind: "error" });
+    } finally {
+      endUndoStep(step);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  function runMultiDayPlan() {
+    const days = Array.from({ length: Math.max(1, Math.floor(planDays)) }, (_, i) => addDays(planStartDate, i));
+    const plan = planMultiDay([...orders, ...futureOrders], generators, days, {
+      minLockMinutes,
+      strategy: assignmentStrategy,
+      morningFlush: settings.flush_morning_time || undefined,
+      eveningFlush: settings.flush_evening_time || undefined,
+      ctx: planningCtx,
+    });
+    setMultiDayPlan(plan);
+    const unmet = plan.reduce((s, d) => s + d.unmet.length, 0);
+    setToast({ msg: `Planned ${days.length} day(s); ${unmet} unmet order(s).`, kind: unmet > 0 ? "error" : "success" });
+    setTimeout(() => setToast(null), 3500);
+  }
+
+  // Live orders are left to Rescan; only vault orders take the planned assignments
+  async function saveMultiDayPlan() {
+    if (!db || !multiDayPlan) return;
+    const futureIds = new Set(futureOrders.map((o) => o.id));
+    const planned = multiDayPlan.flatMap((d) => d.orders).filter((o) => futureIds.has(o.id));
+    if (planned.length === 0) { setToast({ msg: "No future orders in the plan.", kind: "info" }); setTimeout(() => setToast(null), 3500); return; }
+    const step = beginUndoStep("Save multi-day plan");
+    setBusy(true);
+    try {
+      await idbBulkPut(db, STORE_FUTURE_ORDERS, planned, step);
+      setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
+      setToast({ msg: `Saved plan for ${planned.length} future order(s).`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Failed to save plan.", kind: "error" });
+    } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -1376,6 +2342,7 @@ function App() {
 
   async function clearFutureAssignments(dayYYYYMMDD?: string) {
     if (!db) return;
+    const step = beginUndoStep("Clear future assignments");
     setBusy(true);
     try {
       const target = dayYYYYMMDD
@@ -1387,22 +2354,13 @@ function App() {
         return;
       }
 
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction([STORE_FUTURE_ORDERS], "readwrite");
-        const st = tx.objectStore(STORE_FUTURE_ORDERS);
-        target.forEach(o => {
-          const cleared: Order = {
-            ...o,
-            assignedGeneratorIds: [],
-            assigned_delta_minutes: [],
-            assigned_elute_dt: undefined,
-            notes: undefined,
-          };
-          st.put(cleared as any);
-        });
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error as any);
-      });
+      await idbBulkPut(db, STORE_FUTURE_ORDERS, target.map((o): Order => ({
+        ...o,
+        assignedGeneratorIds: [],
+        assigned_delta_minutes: [],
+        assigned_elute_dt: undefined,
+        notes: undefined,
+      })), step);
 
       setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
       setSimFutureMsgs([]);
@@ -1411,6 +2369,7 @@ function App() {
       console.error(e);
       setToast({ msg: "Failed to clear future assignments.", kind: "error" });
     } finally {
+      endUndoStep(step);
       setBusy(false);
       setTimeout(() => setToast(null), 3500);
     }
@@ -1421,11 +2380,15 @@ function App() {
     id: string; hospitalName: string; product: string; calibration: string;
     elute: Date; assignedStr: string; deltaStr: string;
     requestedAtCal: number; requiredAtElute: number; availableAtElute: number;
+    batch: string; batchRequiredAtElute: number; orderedLabel: string;
+    breakdown: { decayFactor: number; yieldFactor: number; overageFactor: number };
   }[]) {
+    const u = settings.activity_unit;
     const header = [
       "Order ID","Hospital","Product","Calibration (local)","Elute (local)",
-      "Assigned Generators","Δt since last elution","Requested @ cal (mCi)",
-      "Required @ elute (mCi)","Available @ elute (mCi)"
+      "Assigned Generators","Δt since last elution",`Requested @ cal (${u})`,
+      `Required @ elute (${u})`,`Available @ elute (${u})`,"Batch",`Batch required @ elute (${u})`,"Ordered as",
+      "Decay factor","Yield factor","Overage factor"
     ];
     const body = rows.map(r => [
       shortId(r.id),
@@ -1435,15 +2398,21 @@ function App() {
       formatDateTimeFriendly(r.elute),
       r.assignedStr || "",
       r.deltaStr || "",
-      Number(r.requestedAtCal ?? 0).toFixed(2),
-      Number(r.requiredAtElute ?? 0).toFixed(2),
-      Number(r.availableAtElute ?? 0).toFixed(2)
+      formatActivity(r.requestedAtCal, u),
+      formatActivity(r.requiredAtElute, u),
+      formatActivity(r.availableAtElute, u),
+      r.batch || "",
+      r.batch ? formatActivity(r.batchRequiredAtElute, u) : "",
+      r.orderedLabel,
+      r.breakdown.decayFactor.toFixed(4),
+      r.breakdown.yieldFactor.toFixed(4),
+      r.breakdown.overageFactor.toFixed(4)
     ]);
     return [header, ...body].map(row => row.map(v => `"${String(v).replace(/"/g,'""')}"`).join(",")).join("\n");
   }
 
   async function exportOrdersRangeJSON(startYYYYMMDD: string, endYYYYMMDD: string) {
-    const filtered = ordersWithCalcAll.filter((o: any) => {
+    const filtered = upcomingLiveWithCalc.filter((o) => {
       const d = localDateStringFromISO(o.calibration_dt);
       return inDateRange(d, startYYYYMMDD, endYYYYMMDD);
     });
@@ -1459,16 +2428,16 @@ function App() {
 
   async function exportOrdersRangeCSV(startYYYYMMDD: string, endYYYYMMDD: string) {
     const genById: Record<string, Generator> = Object.fromEntries(generators.map(g => [g.id, g]));
-    const filteredTableRows = ordersWithCalcAll
-      .filter((o: any) => inDateRange(localDateStringFromISO(o.calibration_dt), startYYYYMMDD, endYYYYMMDD))
-      .map((o: any) => {
+    const filteredTableRows = upcomingLiveWithCalc
+      .filter((o) => inDateRange(localDateStringFromISO(o.calibration_dt), startYYYYMMDD, endYYYYMMDD))
+      .map((o) => {
         const hospitalName = hospitals.find(h => h.id === o.hospitalId)?.name ?? o.hospitalId;
         const assigned = o.assignedGeneratorIds ?? [];
         const eluteDtObj: Date = o._eluteDtObj;
         const availableTotal = assigned.reduce((sum: number, gid: string) => {
           const g = genById[gid];
           if (!g) return sum;
-          const avail = availableAtElute_mCi(g, eluteDtObj, minLockMinutes).available;
+          const avail = availableAtElute_mCi(g, eluteDtObj, minLockMinutes, planningCtx).available;
           return sum + avail;
         }, 0);
         const deltaStr = (o.assigned_delta_minutes ?? []).map((m: number, idx: number) => `${assigned[idx]}: ${Math.round(m)} min`).join("; ");
@@ -1484,6 +2453,11 @@ function App() {
           requestedAtCal: o.requested_mCi_at_cal,
           requiredAtElute: o._requiredAtElute,
           availableAtElute: availableTotal,
+          batch: batchLabel(o, batchesByKey),
+          batchRequiredAtElute: o.batchId ? batchesByKey[batchKey(o)]?.required ?? 0 : 0,
+          orderedUnit: o.ordered_unit as ActivityUnit | undefined,
+          orderedLabel: orderedActivityLabel(o, settings.activity_unit),
+          breakdown: requiredBreakdown(o, o._eluteDtObj, planningCtx),
         };
       });
 
@@ -1499,13 +2473,14 @@ function App() {
   }
 
   function exportOrdersRangePDF(startYYYYMMDD: string, endYYYYMMDD: string) {
-    const filtered = ordersWithCalcAll.filter((o: any) => {
+    const filtered = upcomingLiveWithCalc.filter((o) => {
       const d = localDateStringFromISO(o.calibration_dt);
       return inDateRange(d, startYYYYMMDD, endYYYYMMDD);
     });
 
     const genById: Record<string, Generator> = Object.fromEntries(generators.map(g => [g.id, g]));
-    const htmlRows = filtered.map((o: any) => {
+    const unit = settings.activity_unit;
+    const htmlRows = filtered.map((o) => {
       const hospitalName = hospitals.find(h => h.id === o.hospitalId)?.name ?? o.hospitalId;
       const assigned = o.assignedGeneratorIds ?? [];
       const eluteStr = formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(o.assigned_elute_dt ?? o.calibration_dt));
@@ -1513,7 +2488,7 @@ function App() {
         const g = genById[gid];
         if (!g) return sum;
         const eluteDtObj = parseLocalDateTimeYYYYMMDDTHHMM(o.assigned_elute_dt ?? o.calibration_dt);
-        const avail = availableAtElute_mCi(g, eluteDtObj, minLockMinutes).available;
+        const avail = availableAtElute_mCi(g, eluteDtObj, minLockMinutes, planningCtx).available;
         return sum + avail;
       }, 0);
       const deltaStr = (o.assigned_delta_minutes ?? []).map((m: number, idx: number) => `${assigned[idx]}: ${Math.round(m)} min`).join("; ");
@@ -1521,14 +2496,14 @@ function App() {
         <tr>
           <td>${shortId(o.id)}</td>
           <td>${hospitalName}</td>
-          <td>${o.product}</td>
+          <td>${o.product}${o.batchId ? ` (batch ${batchLabel(o, batchesByKey)})` : ""}</td>
           <td>${formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(o.calibration_dt))}</td>
           <td>${eluteStr}</td>
           <td>${assigned.join(", ") || "—"}</td>
           <td>${deltaStr || "—"}</td>
-          <td>${(o.requested_mCi_at_cal ?? 0).toFixed?.(2) ?? o.requested_mCi_at_cal ?? "—"}</td>
-          <td>${(o._requiredAtElute ?? 0).toFixed?.(2) ?? o._requiredAtElute ?? "—"}</td>
-          <td>${availableTotal ? availableTotal.toFixed(2) : "—"}</td>
+          <td>${formatActivity(o.requested_mCi_at_cal, unit)}${o.ordered_unit && o.ordered_unit !== unit ? ` (ordered ${orderedActivityLabel(o, unit)})` : ""}</td>
+          <td>${formatActivity(o._requiredAtElute, unit)}</td>
+          <td>${availableTotal ? formatActivity(availableTotal, unit) : "—"}</td>
         </tr>`;
     }).join("");
 
@@ -1557,8 +2532,8 @@ function App() {
               <tr>
                 <th>Order ID</th><th>Hospital</th><th>Product</th>
                 <th>Calibration</th><th>Elute</th><th>Assigned</th>
-                <th>Δt since last</th><th>Req @ cal (mCi)</th>
-                <th>Req @ elute (mCi)</th><th>Avail @ elute (mCi)</th>
+                <th>Δt since last</th><th>Req @ cal (${unit})</th>
+                <th>Req @ elute (${unit})</th><th>Avail @ elute (${unit})</th>
               </tr>
             </thead>
             <tbody>
@@ -1575,6 +2550,122 @@ function App() {
     w.focus();
   }
 
+  // ---------- Audit Tab ----------
+  const [auditFrom, setAuditFrom] = useState<string>(addDays(todayLocalDate(), -7));
+  const [auditTo, setAuditTo] = useState<string>(todayLocalDate());
+  const [auditStore, setAuditStore] = useState<string>("");
+  const [auditEntityQuery, setAuditEntityQuery] = useState<string>("");
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditRefresh, setAuditRefresh] = useState<number>(0);
+  const [expandedAuditId, setExpandedAuditId] = useState<string | null>(null);
+
+  useEffect(() => { auditSession.user = operatorName.trim(); }, [operatorName]);
+
+  useEffect(() => {
+    if (!db || page !== "audit") return;
+    let stale = false;
+    idbGetAuditInDateRange(db, auditFrom, auditTo).then((entries) => { if (!stale) setAuditEntries(entries); });
+    return () => { stale = true; };
+  }, [db, page, auditFrom, auditTo, auditRefresh]);
+
+  const auditRows = useMemo(() => {
+    const q = auditEntityQuery.trim().toLowerCase();
+    return auditEntries
+      .filter((e) => (auditStore ? e.store === auditStore : true))
+      .filter((e) => (q ? e.entity_id.toLowerCase().includes(q) : true))
+      .sort((a, b) => b.at.localeCompare(a.at) || b.id.localeCompare(a.id));
+  }, [auditEntries, auditStore, auditEntityQuery]);
+
+  async function exportAuditCSV() {
+    const header = ["At", "User", "Action", "Store", "Entity", "Transaction", "Changed fields", "Before", "After"];
+    const body = auditRows.map((e) => [e.at, e.user, e.action, e.store, e.entity_id, e.txn_id, auditChangedFields(e.before, e.after).join("; "), JSON.stringify(e.before), JSON.stringify(e.after)]);
+    const csv = [header, ...body].map((row) => row.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(",")).join("\n");
+    try {
+      await saveBlobWithPicker(`audit_${auditFrom}_to_${auditTo}`, new Blob([csv], { type: "text/csv" }), {
+        description: "Audit log (CSV)",
+        mime: "text/csv",
+        ext: ".csv",
+      });
+      setToast({ msg: `Exported ${auditRows.length} audit entr${auditRows.length === 1 ? "y" : "ies"}.`, kind: "success" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: "Export failed.", kind: "error" });
+    } finally {
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  // ---------- Undo / redo ----------
+  const [undoStack, setUndoStack] = useState<UndoStep[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoStep[]>([]);
+
+  // A step that wrote anything becomes the newest undo entry
+  function endUndoStep(step: UndoStep) {
+    if (step.changes.length === 0) return;
+    setUndoStack((s) => [...s, step].slice(-UNDO_LIMIT));
+    setRedoStack([]);
+    setToast((t) => (t ? { ...t, action: "undo" } : t));
+  }
+
+  // Reads the given stores back into state after an undo or redo rewrote them
+  async function reloadStores(database: IDBDatabase, stores: Set<string>) {
+    if (stores.has(STORE_GENERATORS)) setGenerators(await idbGetAll<Generator>(database, STORE_GENERATORS));
+    if (stores.has(STORE_HOSPITALS)) setHospitals(await idbGetAll<Hospital>(database, STORE_HOSPITALS));
+    if (stores.has(STORE_ORDERS)) setOrders(await loadLiveOrders(database));
+    if (stores.has(STORE_FUTURE_ORDERS)) setFutureOrders(await idbGetAll<Order>(database, STORE_FUTURE_ORDERS));
+    if (stores.has(STORE_GENERATOR_MODELS)) setGeneratorModels(await idbGetAll<GeneratorModel>(database, STORE_GENERATOR_MODELS));
+    if (stores.has(STORE_ELUTION_LOG)) setElutionLog(await idbGetAll<ElutionLogEntry>(database, STORE_ELUTION_LOG));
+    if (stores.has(STORE_BREAKTHROUGH_TESTS)) setBreakthroughTests(await idbGetAll<BreakthroughTest>(database, STORE_BREAKTHROUGH_TESTS));
+    if (stores.has(STORE_PRODUCTS)) setProducts(await idbGetAll<Product>(database, STORE_PRODUCTS));
+    if (stores.has(STORE_RECURRING)) setRecurringTemplates(await idbGetAll<RecurringOrder>(database, STORE_RECURRING));
+    if (stores.has(STORE_CALENDAR)) setFacilityDays(await idbGetAll<FacilityDay>(database, STORE_CALENDAR));
+    if (stores.has(STORE_MODULES)) setSynthesisModules(await idbGetAll<SynthesisModule>(database, STORE_MODULES));
+    if (stores.has(STORE_RUNS)) setDeliveryRuns(await idbGetAll<DeliveryRun>(database, STORE_RUNS));
+    if (stores.has(STORE_SETTINGS)) {
+      const stored = (await idbGetAll<AppSettings>(database, STORE_SETTINGS)).find((s) => s.id === "app");
+      setSettings({ ...DEFAULT_SETTINGS, ...stored });
+    }
+  }
+
+  // Puts every record of the latest step back (undo) or forward again (redo) in one transaction
+  async function applyUndoStep(direction: "undo" | "redo") {
+    if (!db) return;
+    const step = (direction === "undo" ? undoStack : redoStack).at(-1);
+    if (!step) return;
+    const net = netUndoChanges(step);
+    const expected = (c: UndoChange) => (direction === "undo" ? c.after : c.before);
+    const current = await Promise.all(net.map((c) => idbGet(db, c.store, c.key)));
+    const drifted = net.filter((c, i) => JSON.stringify(current[i]) !== JSON.stringify(expected(c))).length;
+    const verb = direction === "undo" ? "Undo" : "Redo";
+    if (drifted > 0 && !confirm(`${drifted} record(s) changed since "${step.label}". ${verb} anyway and overwrite those changes?`)) return;
+    setBusy(true);
+    try {
+      if (net.length > 0) {
+        await idbWriteAudited(
+          db,
+          net.map((c) => ({ store: c.store, key: c.key, after: direction === "undo" ? c.before : c.after })),
+          { action: direction, summary: { store: net[0].store, after: { label: step.label, records: net.length } } }
+        );
+        await reloadStores(db, new Set(net.map((c) => c.store)));
+      }
+      setUndoStack((s) => (direction === "undo" ? s.slice(0, -1) : [...s, step]));
+      setRedoStack((s) => (direction === "undo" ? [...s, step] : s.slice(0, -1)));
+      setAuditRefresh((n) => n + 1);
+      setToast({ msg: `${direction === "undo" ? "Undid" : "Redid"} "${step.label}".`, kind: "success", action: direction === "undo" ? "redo" : "undo" });
+    } catch (e) {
+      console.error(e);
+      setToast({ msg: `${verb} failed.`, kind: "error" });
+    } finally {
+      setBusy(false);
+      setTimeout(() => setToast(null), 3500);
+    }
+  }
+
+  function runToastAction() {
+    if (busy || pendingRescan || !toast?.action) return;
+    applyUndoStep(toast.action);
+  }
+
   // ---------- Render ----------
   return (
     <div className="min-h-screen bg-slate-100">
@@ -1582,16 +2673,56 @@ function App() {
         {/* Nav */}
         <div className="flex gap-3 mb-4 items-center">
           <button className={`px-3 py-1 rounded-2xl ${page === "orders" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("orders")}>Orders (Today)</button>
-          <button className={`px-3 py-1 rounded-2xl ${page === "upcoming" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("upcoming")}>Upcoming (Mon–Fri)</button>
+          <button className={`px-3 py-1 rounded-2xl ${page === "availability" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("availability")}>Availability</button>
+          <button className={`px-3 py-1 rounded-2xl ${page === "upcoming" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("upcoming")}>Upcoming Week</button>
           <button className={`px-3 py-1 rounded-2xl ${page === "future" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("future")}>Future Orders Vault</button>
+          <button className={`px-3 py-1 rounded-2xl ${page === "recurring" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("recurring")}>Recurring</button>
+          <button className={`px-3 py-1 rounded-2xl ${page === "calendar" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("calendar")}>Facility</button>
           <button className={`px-3 py-1 rounded-2xl ${page === "generators" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("generators")}>Generators</button>
           <button className={`px-3 py-1 rounded-2xl ${page === "hospitals" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("hospitals")}>Hospitals</button>
+          <button className={`px-3 py-1 rounded-2xl ${page === "products" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("products")}>Products</button>
+          <button className={`px-3 py-1 rounded-2xl ${page === "audit" ? "bg-blue-600 text-white" : "bg-white"}`} onClick={() => setPage("audit")}>Audit</button>
 
           <div className="ml-auto flex items-center gap-3">
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-slate-700">Operator</span>
+              <input title="Initials recorded on order status changes" className="border rounded p-1 w-20" placeholder="Initials" value={operatorName} onChange={(e) => setOperatorName(e.target.value)} />
+            </label>
             <label className="flex items-center gap-2">
               <span className="text-sm text-slate-700">Min lock (min)</span>
               <input title="Minimum minutes between reusing the same generator" type="number" value={minLockMinutes} onChange={(e) => setMinLockMinutes(Number(e.target.value))} className="border rounded p-1 w-24" />
             </label>
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-slate-700">Strategy</span>
+              <select title="Optimal considers the whole day together; the others assign orders one by one in calibration order, ranking generators their own way" className="border rounded p-1" value={assignmentStrategy} onChange={(e) => setAssignmentStrategy(e.target.value as AssignmentStrategyId)}>
+                {STRATEGY_OPTIONS.map((s) => (
+                  <option key={s.id} value={s.id}>{s.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-slate-700">New orders</span>
+              <select title="Incremental keeps existing orders on their generators and moves as few as possible to fit a new one" className="border rounded p-1" value={insertionMode} onChange={(e) => setInsertionMode(e.target.value as "full" | "incremental")}>
+                <option value="full">Full rescan</option>
+                <option value="incremental">Incremental</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-slate-700">Max gens/dose</span>
+              <input key={settings.max_generators_per_dose} title="Most generators that may be combined for one dose (products that allow combining)" type="number" min={2} defaultValue={settings.max_generators_per_dose} onBlur={(e) => {
+                const n = Number(e.target.value);
+                if (!Number.isFinite(n) || n < 2) e.target.value = String(settings.max_generators_per_dose);
+                else if (Math.floor(n) !== settings.max_generators_per_dose) changeMaxGeneratorsPerDose(n);
+              }} className="border rounded p-1 w-16" />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-slate-700">Units</span>
+              <select title="Display and entry unit for activities (1 mCi = 37 MBq)" className="border rounded p-1" value={settings.activity_unit} onChange={(e) => changeActivityUnit(e.target.value as ActivityUnit)}>
+                {ACTIVITY_UNITS.map((u) => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </label>
+            <button disabled={busy || !!pendingRescan || undoStack.length === 0} title={undoStack.length > 0 ? `Undo "${undoStack[undoStack.length - 1].label}"` : "Nothing to undo"} className="px-3 py-1 rounded bg-slate-200 text-black disabled:opacity-50" onClick={() => applyUndoStep("undo")}>↶ Undo</button>
+            <button disabled={busy || !!pendingRescan || redoStack.length === 0} title={redoStack.length > 0 ? `Redo "${redoStack[redoStack.length - 1].label}"` : "Nothing to redo"} className="px-3 py-1 rounded bg-slate-200 text-black disabled:opacity-50" onClick={() => applyUndoStep("redo")}>↷ Redo</button>
             <button disabled={busy} className={`px-3 py-1 rounded ${busy ? "bg-emerald-300 text-white" : "bg-emerald-600 text-white"}`} onClick={rescanAll}>{busy ? "Rescanning…" : "Rescan & Reassign"}</button>
             <button className="px-3 py-1 rounded bg-slate-700 text-white" onClick={exportBundle}>Export Bundle (Save As)</button>
             <label className="px-3 py-1 rounded bg-slate-200 text-black cursor-pointer">
@@ -1601,7 +2732,52 @@ function App() {
           </div>
         </div>
 
-        {toast && <Toast message={toast.msg} kind={toast.kind} />}
+        {toast && <Toast message={toast.msg} kind={toast.kind} actionLabel={toast.action === "redo" ? "Redo" : "Undo"} onAction={toast.action && !busy && !pendingRescan ? runToastAction : undefined} />}
+
+        {pendingRescan && (
+          <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow p-4 w-full max-w-4xl max-h-[85vh] overflow-auto">
+              <h2 className="text-xl font-semibold mb-1">{pendingRescan.title}: review reassignment</h2>
+              <div className="text-sm text-slate-600 mb-3">
+                {pendingRescan.changes.filter((c) => c.kind === "moved").length} existing order(s) would change
+                {pendingRescan.changes.some((c) => c.newly_unmet) ? `; ${pendingRescan.changes.filter((c) => c.newly_unmet).length} would become unmet` : ""}.
+              </div>
+              <table className="min-w-full text-sm border rounded-lg overflow-hidden">
+                <thead className="bg-slate-200">
+                  <tr>
+                    <th className="px-2 py-1 text-left">Order</th>
+                    <th className="px-2 py-1 text-left">Hospital</th>
+                    <th className="px-2 py-1 text-left">Generators</th>
+                    <th className="px-2 py-1 text-left">Elution</th>
+                    <th className="px-2 py-1 text-left"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pendingRescan.changes.map((c) => (
+                    <tr key={c.orderId} className={`border-t ${c.newly_unmet ? "bg-red-50" : c.kind === "moved" ? "bg-amber-50" : ""}`}>
+                      <td className="px-2 py-1" title={c.orderId}>{shortId(c.orderId)}</td>
+                      <td className="px-2 py-1">{hospitals.find((h) => h.id === c.hospitalId)?.name ?? c.hospitalId}</td>
+                      <td className="px-2 py-1">{c.generators_before.join(" + ") || "—"} → <span className="font-semibold">{c.generators_after.join(" + ") || "—"}</span></td>
+                      <td className="px-2 py-1">
+                        {c.elute_before ? formatTimeLocal(parseLocalDateTimeYYYYMMDDTHHMM(c.elute_before)) : "—"} → <span className="font-semibold">{c.elute_after ? formatTimeLocal(parseLocalDateTimeYYYYMMDDTHHMM(c.elute_after)) : "—"}</span>
+                      </td>
+                      <td className="px-2 py-1 text-xs">{c.kind === "new" ? "new order" : c.kind === "removed" ? "deleted" : c.newly_unmet ? "newly unmet" : "moved"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex gap-2 mt-4 justify-end">
+                <button disabled={busy} className="px-3 py-1 rounded bg-emerald-600 text-white" onClick={() => resolvePendingRescan("all")}>Accept all changes</button>
+                {(pendingRescan.newOrder || pendingRescan.removeId) && (
+                  <button disabled={busy} title="Existing orders keep their generators and elution times" className="px-3 py-1 rounded bg-blue-600 text-white" onClick={() => resolvePendingRescan("keep")}>
+                    {pendingRescan.newOrder ? "Commit only the new order" : "Delete only, keep assignments"}
+                  </button>
+                )}
+                <button disabled={busy} className="px-3 py-1 rounded bg-slate-200" onClick={() => resolvePendingRescan("reject")}>Reject</button>
+              </div>
+            </div>
+          </div>
+        )}
 
         {/* Orders (today) */}
         {page === "orders" && (
@@ -1620,14 +2796,12 @@ function App() {
                   </select>
                 </Field>
                 <Field label="Product">
-                  <select title="Select product type" className="border p-2 rounded" value={orderForm.product ?? "PSMA"} onChange={(e) => setOrderForm({ ...orderForm, product: e.target.value as any })}>
-                    <option value="PSMA">PSMA</option>
-                    <option value="Dotatate">Dotatate</option>
-                    <option value="Research">Research</option>
+                  <select title="Select product type (sets default prep minutes)" className="border p-2 rounded" value={orderForm.product ?? "PSMA"} onChange={(e) => onProductSelect(e.target.value)}>
+                    {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
                   </select>
                 </Field>
-                <Field label="Requested mCi @ calibration">
-                  <input title="Requested activity at hospital's calibration time" type="number" className="border p-2 rounded" placeholder="e.g., 5" value={orderForm.requested_mCi_at_cal ?? ""} onChange={(e) => setOrderForm({ ...orderForm, requested_mCi_at_cal: Number(e.target.value) })} />
+                <Field label="Requested activity @ calibration">
+                  <ActivityAmountInput title="Requested activity at hospital's calibration time" order={orderForm} defaultUnit={settings.activity_unit} onChange={(patch) => setOrderForm({ ...orderForm, ...patch })} />
                 </Field>
                 <Field label="Calibration date/time">
                   <input title="Hospital calibration date & time (local)" type="datetime-local" className="border p-2 rounded" value={orderForm.calibration_dt ?? nowLocalISO()} onChange={(e) => setOrderForm({ ...orderForm, calibration_dt: e.target.value })} />
@@ -1639,11 +2813,112 @@ function App() {
                 <Field label="Travel minutes (auto from hospital)">
                   <input title="Travel time in minutes (auto-filled from hospital)" type="number" className="border p-2 rounded" placeholder="e.g., 30" value={orderForm.travel_minutes ?? ""} onChange={(e) => setOrderForm({ ...orderForm, travel_minutes: Number(e.target.value) })} />
                 </Field>
+                <Field label="Batch (optional; doses sharing one elution)">
+                  <input title="Orders with the same batch on the same day are eluted and synthesized together, then split into doses" className="border p-2 rounded" placeholder="e.g., AM1" list="order-form-batches" value={orderForm.batchId ?? ""} onChange={(e) => setOrderForm({ ...orderForm, batchId: e.target.value })} />
+                  <datalist id="order-form-batches">
+                    {Object.values(batchesByKey)
+                      .filter((b, idx, all) => all.findIndex((x) => x.batchId === b.batchId) === idx)
+                      .map((b) => <option key={b.batchId} value={b.batchId}>{b.count} dose(s)</option>)}
+                  </datalist>
+                </Field>
+                <Field label="Elute window: earlier / later (min)">
+                  <div className="flex gap-2">
+                    <input title="May elute up to this many minutes before nominal (auto-filled from hospital)" type="number" className="border p-2 rounded w-full" placeholder="0" value={orderForm.elute_window_early_min ?? ""} onChange={(e) => setOrderForm({ ...orderForm, elute_window_early_min: Number(e.target.value) })} />
+                    <input title="May elute up to this many minutes after nominal, shortening prep (auto-filled from hospital)" type="number" className="border p-2 rounded w-full" placeholder="0" value={orderForm.elute_window_late_min ?? ""} onChange={(e) => setOrderForm({ ...orderForm, elute_window_late_min: Number(e.target.value) })} />
+                  </div>
+                </Field>
                 <div className="flex items-end gap-2">
                   <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={saveOrder}>{editingOrderId ? (busy ? "Saving…" : "Save Changes") : (busy ? "Adding…" : "Add Order")}</button>
                   <button className="w-full md:w-auto px-3 py-2 rounded bg-slate-200 text-slate-800" onClick={clearOrderForm}>Clear</button>
                 </div>
               </div>
+              {orderSuggestions && (
+                <div className="mt-3 p-3 rounded border border-amber-300 bg-amber-50 text-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium text-amber-900">{orderSuggestions.message}</span>
+                    <button className="px-2 py-1 rounded bg-slate-200 text-slate-800" onClick={() => setOrderSuggestions(null)}>Dismiss</button>
+                  </div>
+                  {orderSuggestions.suggestions.length === 0 ? (
+                    <div className="text-slate-600">No feasible alternative found nearby.</div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {orderSuggestions.suggestions.map((s, i) => (
+                        <button key={`${s.kind}-${i}`} title="Fill the order form with this alternative" className="px-2 py-1 rounded bg-white border border-amber-400 hover:bg-amber-100" onClick={() => applyOrderSuggestion(s)}>{s.label}</button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </Section>
+
+            <Section title="Delivery Runs">
+              <div className="flex items-center gap-3 mb-2">
+                <button disabled={busy} className="px-3 py-1 rounded bg-blue-600 text-white" onClick={addDeliveryRun}>New Run</button>
+                <span className="text-xs text-slate-500">Doses on a run leave the lab together; each stop's travel time becomes departure → calibration, using the hospital travel matrix between stops.</span>
+              </div>
+              {routedRunsForDay.length === 0 && <div className="text-sm text-slate-500">No delivery runs for {selectedDate}.</div>}
+              {routedRunsForDay.map((rr) => {
+                const run = rr.run;
+                const routedIds = new Set(deliveryRuns.flatMap((r) => r.stop_order_ids));
+                const candidates = [...orders, ...futureOrders]
+                  .filter((o) => localDateStringFromISO(o.calibration_dt) === run.date && !routedIds.has(o.id))
+                  .sort((a, b) => a.calibration_dt.localeCompare(b.calibration_dt));
+                return (
+                  <div key={run.id} className="border rounded p-2 mb-2 bg-slate-50">
+                    <div className="flex items-center gap-3 mb-2">
+                      <input className="border rounded p-1 font-semibold" defaultValue={run.name} onBlur={(e) => { if (e.target.value && e.target.value !== run.name) updateDeliveryRun({ ...run, name: e.target.value }); }} />
+                      <label className="flex items-center gap-2 text-sm">
+                        <span>Departure</span>
+                        <input title="Blank = latest departure that still makes every calibration" type="time" className="border rounded p-1" value={run.departure_dt ? run.departure_dt.slice(11, 16) : ""} onChange={(e) => updateDeliveryRun({ ...run, departure_dt: e.target.value ? `${run.date}T${e.target.value}` : undefined })} />
+                      </label>
+                      <span className="text-sm text-slate-600">{rr.stops.length > 0 ? `leaves ${formatTimeLocal(rr.departure)}${run.departure_dt ? "" : " (auto)"}` : ""}</span>
+                      <select className="border rounded p-1 text-sm" value="" onChange={(e) => { if (e.target.value) updateDeliveryRun({ ...run, stop_order_ids: [...run.stop_order_ids, e.target.value] }); }}>
+                        <option value="">Add stop…</option>
+                        {candidates.map((o) => (
+                          <option key={o.id} value={o.id}>{hospitals.find((h) => h.id === o.hospitalId)?.name ?? o.hospitalId} — {formatTimeLocal(parseLocalDateTimeYYYYMMDDTHHMM(o.calibration_dt))} ({shortId(o.id)})</option>
+                        ))}
+                      </select>
+                      <button className="ml-auto px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteDeliveryRun(run)}>Delete Run</button>
+                    </div>
+                    {rr.stops.length > 0 && (
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left">
+                            <th className="px-2 py-1">#</th>
+                            <th className="px-2 py-1">Order</th>
+                            <th className="px-2 py-1">Hospital</th>
+                            <th className="px-2 py-1">Arrival</th>
+                            <th className="px-2 py-1">Calibration</th>
+                            <th className="px-2 py-1">Slack</th>
+                            <th className="px-2 py-1"></th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rr.stops.map((s, i) => {
+                            const idx = run.stop_order_ids.indexOf(s.orderId);
+                            return (
+                              <tr key={s.orderId} className={s.slack_min < 0 ? "bg-red-50" : ""}>
+                                <td className="px-2 py-1">{i + 1}</td>
+                                <td className="px-2 py-1" title={s.orderId}>{shortId(s.orderId)}</td>
+                                <td className="px-2 py-1">{hospitals.find((h) => h.id === s.hospitalId)?.name ?? s.hospitalId}</td>
+                                <td className="px-2 py-1">{formatTimeLocal(s.arrival)}</td>
+                                <td className="px-2 py-1">{formatTimeLocal(s.calibration)}</td>
+                                <td className="px-2 py-1">{s.slack_min} min</td>
+                                <td className="px-2 py-1 flex gap-1">
+                                  <button className="px-2 rounded bg-slate-200" onClick={() => moveRunStop(run, idx, -1)}>↑</button>
+                                  <button className="px-2 rounded bg-slate-200" onClick={() => moveRunStop(run, idx, 1)}>↓</button>
+                                  <button className="px-2 rounded bg-slate-200" onClick={() => updateDeliveryRun({ ...run, stop_order_ids: run.stop_order_ids.filter((id) => id !== s.orderId) })}>✕</button>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+                    {rr.warnings.map((w, i) => <div key={i} className="text-sm text-red-700">⚠ {w}</div>)}
+                  </div>
+                );
+              })}
             </Section>
 
             <Section title="Orders (Filtered by day selector below)">
@@ -1661,56 +2936,101 @@ function App() {
                 </label>
                 <label className="flex items-center gap-2">
                   <span className="text-sm">Product</span>
-                  <select className="border p-1 rounded" value={ordersFilterProduct} onChange={(e) => setOrdersFilterProduct(e.target.value as any)}>
+                  <select className="border p-1 rounded" value={ordersFilterProduct} onChange={(e) => setOrdersFilterProduct(e.target.value)}>
+                    <option value="">All</option>
+                    {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-slate-700">Status</span>
+                  <select className="border p-1 rounded" value={ordersFilterStatus} onChange={(e) => setOrdersFilterStatus(e.target.value as OrderStatus | "")}>
                     <option value="">All</option>
-                    <option value="PSMA">PSMA</option>
-                    <option value="Dotatate">Dotatate</option>
-                    <option value="Research">Research</option>
+                    {ORDER_STATUSES.map((s) => <option key={s} value={s}>{s}</option>)}
                   </select>
                 </label>
-                <button className="px-2 py-1 rounded bg-slate-200" onClick={() => { setOrdersFilterHospitalId(""); setOrdersFilterProduct(""); }}>Clear Filters</button>
+                <button className="px-2 py-1 rounded bg-slate-200" onClick={() => { setOrdersFilterHospitalId(""); setOrdersFilterProduct(""); setOrdersFilterStatus(""); }}>Clear Filters</button>
               </div>
 
+              {ordersTable.some((r) => r.facilityIssue) && (
+                <div className="mt-3 p-2 rounded border border-red-300 bg-red-50 text-sm text-red-800">
+                  Outside shift or on a closed day:{" "}
+                  {ordersTable.filter((r) => r.facilityIssue).map((r) => `${shortId(r.id)} (${r.facilityIssue})`).join("; ")}
+                </div>
+              )}
+
               <div className="mt-4 overflow-x-auto">
                 <table className="min-w-full border rounded-lg overflow-hidden">
                   <thead className="bg-slate-200">
                     <tr>
                       <th className="px-3 py-2 text-left">Hospital</th>
                       <th className="px-3 py-2 text-left">Product</th>
+                      <th className="px-3 py-2 text-left">Batch</th>
                       <th className="px-3 py-2 text-left">Calibration</th>
                       <th className="px-3 py-2 text-left">Elution (time)</th>
                       <th className="px-3 py-2 text-left">Assigned generators</th>
                       <th className="px-3 py-2 text-left">Time since last elution</th>
-                      <th className="px-3 py-2 text-left">Requested (mCi)</th>
-                      <th className="px-3 py-2 text-left">Available / Required @ elute (mCi)</th>
+                      <th className="px-3 py-2 text-left">Requested ({settings.activity_unit})</th>
+                      <th className="px-3 py-2 text-left">Available / Required @ elute ({settings.activity_unit})</th>
+                      <th className="px-3 py-2 text-left">Status</th>
                       <th className="px-3 py-2 text-left">Actions</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white">
                     {ordersTable.length === 0 && (
                       <tr>
-                        <td className="px-3 py-3 text-slate-500" colSpan={9}>No orders for {selectedDate} {ordersFilterHospitalId ? `— ${hospitals.find(h => h.id === ordersFilterHospitalId)?.name}` : ""} {ordersFilterProduct ? `— ${ordersFilterProduct}` : ""}.</td>
+                        <td className="px-3 py-3 text-slate-500" colSpan={11}>No orders for {selectedDate} {ordersFilterHospitalId ? `— ${hospitals.find(h => h.id === ordersFilterHospitalId)?.name}` : ""} {ordersFilterProduct ? `— ${ordersFilterProduct}` : ""}.</td>
                       </tr>
                     )}
                     {ordersTable.map((row) => (
-                      <tr key={row.id} className="border-t">
+                      <React.Fragment key={row.id}>
+                      <tr className="border-t">
                         <td className="px-3 py-2">
                           <span title={`Hospital ID: ${row.hospitalName}`}>{row.hospitalName}</span>
+                          {row.facilityIssue && <span title={row.facilityIssue} className="ml-2 text-xs px-1 rounded bg-red-100 text-red-800">⚠ facility</span>}
                         </td>
                         <td className="px-3 py-2">{row.product}</td>
+                        <td className="px-3 py-2">
+                          {row.batch ? <span title={`Batch required @ elute: ${formatActivityWithUnit(row.batchRequiredAtElute, settings.activity_unit)}`}>{row.batch}</span> : "—"}
+                        </td>
                         <td className="px-3 py-2">{formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(row.calibration))}</td>
                         <td className="px-3 py-2 font-semibold">{formatTimeLocal(row.elute)}</td>
-                        <td className="px-3 py-2 font-semibold">{row.assignedStr || "—"}</td>
+                        <td className="px-3 py-2 font-semibold">
+                          {row.assignedStr || "—"}
+                          {row.moduleId ? <span title="Synthesis module" className="ml-1 text-xs font-normal text-slate-500">· {row.moduleId}</span> : null}
+                        </td>
                         <td className="px-3 py-2">{row.deltaStr || "—"}</td>
-                        <td className="px-3 py-2">{row.requestedAtCal > 0 ? Number(row.requestedAtCal).toFixed(2) : "—"}</td>
-                        <td className="px-3 py-2">{row.availableAtElute > 0 ? Number(row.availableAtElute).toFixed(2) : "—"} {row.requiredAtElute > 0 ? `| req ${Number(row.requiredAtElute).toFixed(2)}` : ""}</td>
+                        <td className="px-3 py-2">
+                          {row.requestedAtCal > 0 ? formatActivity(row.requestedAtCal, settings.activity_unit) : "—"}
+                          {row.orderedUnit && row.orderedUnit !== settings.activity_unit ? <span className="ml-1 text-xs text-slate-500">(ordered {row.orderedLabel})</span> : null}
+                        </td>
+                        <td className="px-3 py-2">{row.availableAtElute > 0 ? formatActivity(row.availableAtElute, settings.activity_unit) : "—"} {row.requiredAtElute > 0 ? `| req ${formatActivity(row.requiredAtElute, settings.activity_unit)}` : ""}</td>
+                        <td className="px-3 py-2">
+                          <OrderStatusBadge status={row.status} history={row.statusHistory} />
+                        </td>
                         <td className="px-3 py-2">
                           <div className="flex gap-2">
+                            {(() => {
+                              const o = orders.find((oo) => oo.id === row.id);
+                              const next = o ? nextOrderStatus(o) : null;
+                              return o && next ? (
+                                <>
+                                  <button disabled={busy} title={`Mark ${next}`} className="px-2 py-1 rounded bg-emerald-600 text-white" onClick={() => changeOrderStatus(o, next, true)}>→ {next}</button>
+                                  <button disabled={busy} className="px-2 py-1 rounded bg-slate-200" onClick={() => changeOrderStatus(o, "cancelled", true)}>Cancel</button>
+                                </>
+                              ) : null;
+                            })()}
                             <button className="px-2 py-1 rounded bg-amber-600 text-white" onClick={() => { const o = orders.find((oo) => oo.id === row.id); if (o) onEditOrder(o); }}>Edit</button>
                             <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteOrder(row.id)}>Delete</button>
+                            <button className="px-2 py-1 rounded bg-slate-200" onClick={() => setExpandedTraceId(expandedTraceId === row.id ? null : row.id)}>Why?</button>
                           </div>
                         </td>
                       </tr>
+                      {expandedTraceId === row.id && (
+                        <tr className="bg-slate-50">
+                          <td className="px-3 py-2" colSpan={11}><AssignmentTracePanel trace={row.trace} unit={settings.activity_unit} /></td>
+                        </tr>
+                      )}
+                      </React.Fragment>
                     ))}
                   </tbody>
                 </table>
@@ -1719,10 +3039,64 @@ function App() {
           </div>
         )}
 
+        {/* Generator availability */}
+        {page === "availability" && (
+          <div className="grid grid-cols-1 gap-4">
+            <Section title="Availability Forecast (extra dose still deliverable)">
+              <div className="flex items-center gap-3 mb-3">
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-slate-700">Day</span>
+                  <input title="Day whose committed assignments are taken into account" type="date" value={selectedDate} onChange={(e) => setSelectedDate(e.target.value)} className="border rounded p-1" />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-slate-700">Product</span>
+                  <select title="Prep time, yield and overage come from this product" className="border rounded p-1" value={forecastProductId || products[0]?.id || ""} onChange={(e) => setForecastProductId(e.target.value)}>
+                    {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </label>
+                <span className="text-xs text-slate-500">Largest extra dose at each calibration time, after the day's assigned orders, the {minLockMinutes}-min lock, shift hours and free synthesis modules.</span>
+              </div>
+              {!forecast || forecast.columns.length === 0 ? (
+                <div className="text-sm text-slate-500">Add hospitals and products to see the forecast.</div>
+              ) : (
+                <div className="overflow-auto">
+                  <table className="text-sm border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="p-1 text-left">Calibration</th>
+                        {forecast.columns.map((c) => (
+                          <th key={c.hospitalId} className="p-1 text-left" title={`${c.travel_minutes} min travel`}>{c.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {forecast.slots.map((slot, i) => (
+                        <tr key={slot.getTime()}>
+                          <td className="p-1 font-mono">{formatTimeLocal(slot)}</td>
+                          {forecast.cells[i].map((v, j) => {
+                            const share = v == null || forecastMax <= 0 ? 0 : v / forecastMax;
+                            const shade = v == null ? "bg-slate-50 text-slate-400" : v <= 0 ? "bg-red-100" : share < 0.25 ? "bg-amber-100" : share < 0.5 ? "bg-yellow-100" : share < 0.75 ? "bg-lime-100" : "bg-emerald-200";
+                            return (
+                              <td key={forecast.columns[j].hospitalId} className={`p-1 border border-white text-right ${shade}`}>
+                                {v == null ? "—" : formatActivity(v, settings.activity_unit)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="text-xs text-slate-500 mt-1">Values in {settings.activity_unit} at calibration; "—" marks slots whose elution time has passed.</div>
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+
         {/* Upcoming Mon–Fri (LIVE + FUTURE) */}
         {page === "upcoming" && (
           <div className="grid grid-cols-1 gap-4">
-            <Section title="Upcoming Week (Mon–Fri)">
+            <Section title="Upcoming Week (operating days)">
               <div className="flex flex-wrap gap-3 mb-3 items-center">
                 <label className="flex items-center gap-2">
                   <span className="text-sm">Week of</span>
@@ -1737,12 +3111,13 @@ function App() {
                 <div className="flex gap-2">
                   {upcomingDays.map((d, idx) => {
                     const count = (upcomingDayOrders[d] ?? []).length;
+                    const hours = facilityHours(facilityCalendar, d);
                     return (
                       <button key={d}
-                        className={`px-3 py-1 rounded-2xl ${idx === upcomingActiveIdx ? "bg-blue-600 text-white" : "bg-slate-200"}`}
+                        className={`px-3 py-1 rounded-2xl ${d === upcomingActiveDay ? "bg-blue-600 text-white" : hours.open ? "bg-slate-200" : "bg-red-100 text-red-800"}`}
                         onClick={() => setUpcomingActiveIdx(idx)}
-                        title={`${count} order(s)`}>
-                        {["Mon","Tue","Wed","Thu","Fri"][idx]} {d} {count > 0 ? `(${count})` : ""}
+                        title={hours.open ? `${count} order(s); open ${hours.open_time}–${hours.close_time}` : `Closed${hours.note ? ` (${hours.note})` : ""}; ${count} order(s)`}>
+                        {WEEKDAY_LABELS[parseLocalDateYYYYMMDD(d).getDay()]} {d} {count > 0 ? `(${count})` : ""}{hours.open ? "" : " closed"}
                       </button>
                     );
                   })}
@@ -1750,28 +3125,28 @@ function App() {
 
                 {/* Export (live only) */}
                 <button className="px-3 py-1 rounded bg-slate-700 text-white"
-                  onClick={() => exportOrdersRangeJSON(upcomingDays[upcomingActiveIdx], upcomingDays[upcomingActiveIdx])}>
+                  onClick={() => exportOrdersRangeJSON(upcomingActiveDay, upcomingActiveDay)}>
                   Export Day JSON
                 </button>
                 <button className="px-3 py-1 rounded bg-slate-700 text-white"
-                  onClick={() => exportOrdersRangeCSV(upcomingDays[upcomingActiveIdx], upcomingDays[upcomingActiveIdx])}>
+                  onClick={() => exportOrdersRangeCSV(upcomingActiveDay, upcomingActiveDay)}>
                   Export Day CSV
                 </button>
                 <button className="px-3 py-1 rounded bg-indigo-700 text-white"
-                  onClick={() => exportOrdersRangePDF(upcomingDays[upcomingActiveIdx], upcomingDays[upcomingActiveIdx])}>
+                  onClick={() => exportOrdersRangePDF(upcomingActiveDay, upcomingActiveDay)}>
                   Export Day PDF
                 </button>
 
                 <button className="px-3 py-1 rounded bg-slate-700 text-white"
-                  onClick={() => exportOrdersRangeJSON(upcomingWeekStart, addDays(upcomingWeekStart, 4))}>
+                  onClick={() => exportOrdersRangeJSON(upcomingWeekStart, addDays(upcomingWeekStart, 6))}>
                   Export Week JSON
                 </button>
                 <button className="px-3 py-1 rounded bg-slate-700 text-white"
-                  onClick={() => exportOrdersRangeCSV(upcomingWeekStart, addDays(upcomingWeekStart, 4))}>
+                  onClick={() => exportOrdersRangeCSV(upcomingWeekStart, addDays(upcomingWeekStart, 6))}>
                   Export Week CSV
                 </button>
                 <button className="px-3 py-1 rounded bg-indigo-700 text-white"
-                  onClick={() => exportOrdersRangePDF(upcomingWeekStart, addDays(upcomingWeekStart, 4))}>
+                  onClick={() => exportOrdersRangePDF(upcomingWeekStart, addDays(upcomingWeekStart, 6))}>
                   Export Week PDF
                 </button>
               </div>
@@ -1788,16 +3163,16 @@ function App() {
                       <th className="px-3 py-2 text-left">Elute</th>
                       <th className="px-3 py-2 text-left">Assigned</th>
                       <th className="px-3 py-2 text-left">Δt since last</th>
-                      <th className="px-3 py-2 text-left">Requested (mCi)</th>
-                      <th className="px-3 py-2 text-left">Avail / Req @ elute (mCi)</th>
+                      <th className="px-3 py-2 text-left">Requested ({settings.activity_unit})</th>
+                      <th className="px-3 py-2 text-left">Avail / Req @ elute ({settings.activity_unit})</th>
                       <th className="px-3 py-2 text-left">Actions</th>
                     </tr>
                   </thead>
                   <tbody className="bg-white">
-                    {((upcomingDayOrders[upcomingDays[upcomingActiveIdx]] ?? []).length === 0) && (
-                      <tr><td className="px-3 py-3 text-slate-500" colSpan={10}>No orders on {upcomingDays[upcomingActiveIdx]}.</td></tr>
+                    {((upcomingDayOrders[upcomingActiveDay] ?? []).length === 0) && (
+                      <tr><td className="px-3 py-3 text-slate-500" colSpan={10}>No orders on {upcomingActiveDay}.</td></tr>
                     )}
-                    {(upcomingDayOrders[upcomingDays[upcomingActiveIdx]] ?? []).map((o: any) => {
+                    {(upcomingDayOrders[upcomingActiveDay] ?? []).map((o) => {
                       const hospitalName = hospitals.find(h => h.id === o.hospitalId)?.name ?? o.hospitalId;
                       const assigned = o.assignedGeneratorIds ?? [];
                       const elute = o._eluteDtObj as Date;
@@ -1805,7 +3180,7 @@ function App() {
                       const availableTotal = assigned.reduce((sum: number, gid: string) => {
                         const g = genById[gid];
                         if (!g) return sum;
-                        const avail = availableAtElute_mCi(g, elute, minLockMinutes).available;
+                        const avail = availableAtElute_mCi(g, elute, minLockMinutes, planningCtx).available;
                         return sum + avail;
                       }, 0);
                       const deltaStr = (o.assigned_delta_minutes ?? []).map((m: number, idx: number) => `${assigned[idx]}: ${Math.round(m)} min`).join("; ");
@@ -1815,15 +3190,19 @@ function App() {
                           <td className="px-3 py-2">
                             <span title={`Order ID: ${o.id}`}>{shortId(o.id)}</span>
                             <span className="ml-2 text-xs text-slate-500">{isLive ? "LIVE" : "FUTURE"}</span>
+                            {facilityIssue(facilityCalendar, o) && <span title={facilityIssue(facilityCalendar, o) ?? ""} className="ml-2 text-xs px-1 rounded bg-red-100 text-red-800">⚠ facility</span>}
                           </td>
                           <td className="px-3 py-2">{hospitalName}</td>
-                          <td className="px-3 py-2">{o.product}</td>
+                          <td className="px-3 py-2">{o.product}{o.batchId ? <span className="ml-1 text-xs text-slate-500">batch {batchLabel(o, batchesByKey)}</span> : null}</td>
                           <td className="px-3 py-2">{formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(o.calibration_dt))}</td>
                           <td className="px-3 py-2 font-semibold">{formatDateTimeFriendly(elute)}</td>
                           <td className="px-3 py-2 font-semibold">{assigned.join(", ") || "—"}</td>
                           <td className="px-3 py-2">{deltaStr || "—"}</td>
-                          <td className="px-3 py-2">{o.requested_mCi_at_cal > 0 ? Number(o.requested_mCi_at_cal).toFixed(2) : "—"}</td>
-                          <td className="px-3 py-2">{availableTotal > 0 ? availableTotal.toFixed(2) : "—"} {o._requiredAtElute > 0 ? `| req ${Number(o._requiredAtElute).toFixed(2)}` : ""}</td>
+                          <td className="px-3 py-2">
+                            {o.requested_mCi_at_cal > 0 ? formatActivity(o.requested_mCi_at_cal, settings.activity_unit) : "—"}
+                            {o.ordered_unit && o.ordered_unit !== settings.activity_unit ? <span className="ml-1 text-xs text-slate-500">(ordered {orderedActivityLabel(o, settings.activity_unit)})</span> : null}
+                          </td>
+                          <td className="px-3 py-2">{availableTotal > 0 ? formatActivity(availableTotal, settings.activity_unit) : "—"} {o._requiredAtElute > 0 ? `| req ${formatActivity(o._requiredAtElute, settings.activity_unit)}` : ""}</td>
                           <td className="px-3 py-2">
                             <div className="flex gap-2">
                               {isLive ? (
@@ -1846,6 +3225,64 @@ function App() {
         {/* Future Orders Vault */}
         {page === "future" && (
           <div className="grid grid-cols-1 gap-4">
+            <Section title="Multi-day Planner">
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">From</span>
+                  <input type="date" className="border rounded p-1" value={planStartDate} onChange={(e) => setPlanStartDate(e.target.value)} />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">Days</span>
+                  <input type="number" min={1} className="border rounded p-1 w-16" value={planDays} onChange={(e) => setPlanDays(Number(e.target.value))} />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">Morning flush</span>
+                  <input title="Flush every generator at this time before the day's first draw (blank for none)" type="time" className="border rounded p-1" value={settings.flush_morning_time} onChange={(e) => changeFlushTime("flush_morning_time", e.target.value)} />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">End-of-day flush</span>
+                  <input title="Flush every generator at this time after the day's last draw (blank for none)" type="time" className="border rounded p-1" value={settings.flush_evening_time} onChange={(e) => changeFlushTime("flush_evening_time", e.target.value)} />
+                </label>
+                <button disabled={busy} className={`px-3 py-1 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={runMultiDayPlan}>Plan Horizon</button>
+                <button disabled={busy || !multiDayPlan} className={`px-3 py-1 rounded ${busy || !multiDayPlan ? "bg-slate-300 text-white" : "bg-emerald-600 text-white"}`} onClick={saveMultiDayPlan}>Save Plan to Vault</button>
+              </div>
+              {multiDayPlan && (
+                <div className="overflow-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b">
+                        <th className="p-2">Day</th>
+                        <th className="p-2">Orders</th>
+                        <th className="p-2">Unmet</th>
+                        <th className="p-2">Flushes</th>
+                        <th className="p-2">Generators at end of day</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {multiDayPlan.map((d) => (
+                        <tr key={d.day} className={`border-b align-top ${d.unmet.length > 0 ? "bg-red-50" : ""}`}>
+                          <td className="p-2 whitespace-nowrap">{formatDateFriendly(parseLocalDateYYYYMMDD(d.day))}</td>
+                          <td className="p-2">{d.orders.length}</td>
+                          <td className="p-2">
+                            {d.unmet.length === 0 ? "—" : d.unmet.map((o) => (
+                              <div key={o.id}>
+                                <span title={`Order ID: ${o.id}`}>{shortId(o.id)}</span> — {hospitals.find((h) => h.id === o.hospitalId)?.name ?? o.hospitalId}, {orderedActivityLabel(o, settings.activity_unit)} @ {formatTimeLocal(parseLocalDateTimeYYYYMMDDTHHMM(o.calibration_dt))}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="p-2">{d.flushes.length === 0 ? "—" : d.flushes.map((f) => `${f.generatorId} ${formatTimeLocal(parseLocalDateTimeYYYYMMDDTHHMM(f.elute_dt))}`).join(", ")}</td>
+                          <td className="p-2">
+                            {d.generators.map((g) => (
+                              <div key={g.id}>{g.id}: last {formatTimeLocal(parseLocalDateTimeYYYYMMDDTHHMM(g.last_eluted_dt))}, eluted {formatActivityWithUnit(g.total_eluted_today_mCi ?? 0, settings.activity_unit)}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Section>
             <Section title="Future Orders Vault (Edit / Delete / Promote / Import)">
               <div className="flex flex-wrap gap-3 mb-3 items-center">
                 {/* Import */}
@@ -1855,19 +3292,21 @@ function App() {
                     if (!db) return;
                     const file = ev.target.files?.[0];
                     if (!file) return;
+                    const step = beginUndoStep(`Import ${file.name}`);
                     setBusy(true);
                     try {
                       const text = await file.text();
                       const data = JSON.parse(text);
                       const ords: Order[] = Array.isArray(data) ? data : (data.orders ?? []);
                       if (!Array.isArray(ords) || ords.length === 0) { alert("No orders found in file."); setBusy(false); return; }
-                      await idbBulkPut(db, STORE_FUTURE_ORDERS, ords);
+                      await idbBulkPut(db, STORE_FUTURE_ORDERS, ords.map((o) => ({ ...o, calibration_dt: normalizeCalibrationDt(o.calibration_dt) })), step);
                       setFutureOrders(await idbGetAll<Order>(db, STORE_FUTURE_ORDERS));
                       setToast({ msg: `Imported ${ords.length} future order(s).`, kind: "success" });
                     } catch (e) {
                       console.error(e);
                       setToast({ msg: "Import failed.", kind: "error" });
                     } finally {
+                      endUndoStep(step);
                       setBusy(false);
                       setTimeout(() => setToast(null), 3500);
                     }
@@ -1913,13 +3352,23 @@ function App() {
                 </div>
               )}
 
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-sm text-slate-700">Status</span>
+                <select className="border p-1 rounded" value={futureFilterStatus} onChange={(e) => setFutureFilterStatus(e.target.value as OrderStatus | "")}>
+                  <option value="">All</option>
+                  {ORDER_STATUSES.map((s) => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
                 {futureOrders.length === 0 && <div className="text-slate-500">No future orders in the vault.</div>}
-                {futureOrders.map((fo: any) => (
+                {futureOrders.filter((fo) => (futureFilterStatus ? orderStatus(fo) === futureFilterStatus : true)).map((fo: Order) => (
                   <div key={fo.id} className="border rounded p-2 bg-slate-50">
                     <div className="flex justify-between items-center">
                       <div className="font-semibold">
                         <span title={`Order ID: ${fo.id}`}>{shortId(fo.id)}</span> — {fo.product}
+                        {fo.recurring_id && <span title={`From recurring order ${fo.recurring_id}`} className="ml-2 text-xs px-1 rounded bg-indigo-100 text-indigo-800">recurring</span>}
+                        <span className="ml-2"><OrderStatusBadge status={orderStatus(fo)} history={fo.status_history} /></span>
+                        {facilityIssue(facilityCalendar, fo) && <span title={facilityIssue(facilityCalendar, fo) ?? ""} className="ml-2 text-xs px-1 rounded bg-red-100 text-red-800">⚠ facility</span>}
                       </div>
                       <div className="flex gap-2 items-center">
                         {editingFutureId === fo.id ? (
@@ -1931,11 +3380,16 @@ function App() {
                                   ...(fo as Order),
                                   id: fo.id,
                                   hospitalId: form.hospitalId ?? fo.hospitalId,
-                                  product: (form.product as any) ?? fo.product,
+                                  product: form.product ?? fo.product,
                                   requested_mCi_at_cal: Number(form.requested_mCi_at_cal ?? fo.requested_mCi_at_cal ?? 0),
+                                  ordered_amount: form.ordered_amount ?? fo.ordered_amount,
+                                  ordered_unit: form.ordered_unit ?? fo.ordered_unit,
                                   calibration_dt: form.calibration_dt ?? fo.calibration_dt ?? nowLocalISO(),
                                   prep_minutes: Number(form.prep_minutes ?? fo.prep_minutes ?? 15),
                                   travel_minutes: Number(form.travel_minutes ?? fo.travel_minutes ?? 0),
+                                  elute_window_early_min: Number(form.elute_window_early_min ?? fo.elute_window_early_min ?? 0),
+                                  elute_window_late_min: Number(form.elute_window_late_min ?? fo.elute_window_late_min ?? 0),
+                                  batchId: ((form.batchId ?? fo.batchId ?? "") as string).trim() || undefined,
                                 };
                                 updateFutureOrder(updated);
                                 setEditingFutureId(null);
@@ -1956,6 +3410,8 @@ function App() {
                             Edit
                           </button>
                         )}
+                        {orderStatus(fo) === "requested" && <button disabled={busy} className="px-2 py-1 rounded bg-emerald-600 text-white" onClick={() => changeOrderStatus(fo, "confirmed", false)}>Confirm</button>}
+                        {orderStatus(fo) !== "cancelled" && <button disabled={busy} className="px-2 py-1 rounded bg-slate-200" onClick={() => changeOrderStatus(fo, "cancelled", false)}>Cancel</button>}
                         <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteFutureOrder(fo.id)}>Delete</button>
                       </div>
                     </div>
@@ -1981,16 +3437,13 @@ function App() {
                         <Field label="Product">
                           <select className="border p-2 rounded"
                             value={futureEditFormById[fo.id]?.product ?? fo.product}
-                            onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], product: e.target.value as any } }))}>
-                            <option value="PSMA">PSMA</option>
-                            <option value="Dotatate">Dotatate</option>
-                            <option value="Research">Research</option>
+                            onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], product: e.target.value } }))}>
+                            {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
                           </select>
                         </Field>
-                        <Field label="Requested mCi @ calibration">
-                          <input type="number" className="border p-2 rounded"
-                            value={futureEditFormById[fo.id]?.requested_mCi_at_cal ?? fo.requested_mCi_at_cal ?? ""}
-                            onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], requested_mCi_at_cal: Number(e.target.value) } }))}/>
+                        <Field label="Requested activity @ calibration">
+                          <ActivityAmountInput order={{ ...fo, ...futureEditFormById[fo.id] }} defaultUnit={settings.activity_unit}
+                            onChange={(patch) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], ...patch } }))}/>
                         </Field>
                         <Field label="Calibration date/time">
                           <input type="datetime-local" className="border p-2 rounded"
@@ -2008,13 +3461,28 @@ function App() {
                             value={futureEditFormById[fo.id]?.travel_minutes ?? fo.travel_minutes ?? ""}
                             onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], travel_minutes: Number(e.target.value) } }))}/>
                         </Field>
+                        <Field label="Batch (optional)">
+                          <input className="border p-2 rounded"
+                            value={futureEditFormById[fo.id]?.batchId ?? fo.batchId ?? ""}
+                            onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], batchId: e.target.value } }))}/>
+                        </Field>
+                        <Field label="Elute window: earlier / later (min)">
+                          <div className="flex gap-2">
+                            <input type="number" className="border p-2 rounded w-full"
+                              value={futureEditFormById[fo.id]?.elute_window_early_min ?? fo.elute_window_early_min ?? ""}
+                              onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], elute_window_early_min: Number(e.target.value) } }))}/>
+                            <input type="number" className="border p-2 rounded w-full"
+                              value={futureEditFormById[fo.id]?.elute_window_late_min ?? fo.elute_window_late_min ?? ""}
+                              onChange={(e) => setFutureEditFormById(m => ({ ...m, [fo.id]: { ...m[fo.id], elute_window_late_min: Number(e.target.value) } }))}/>
+                          </div>
+                        </Field>
                       </div>
                     )}
 
                     {/* Summary */}
                     <div className="text-sm">Hospital: {hospitals.find((h) => h.id === fo.hospitalId)?.name ?? fo.hospitalId}</div>
                     <div className="text-sm">Calibration: {formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(fo.calibration_dt))} | Prep: {fo.prep_minutes} | Travel: {fo.travel_minutes}</div>
-                    <div className="text-sm">Requested @ cal: {fo.requested_mCi_at_cal ?? "—"} mCi</div>
+                    <div className="text-sm">Requested @ cal: {fo.requested_mCi_at_cal != null ? orderedActivityLabel(fo, settings.activity_unit) : "—"}{fo.batchId ? ` | Batch: ${batchLabel(fo, batchesByKey)}` : ""}</div>
 
                     {/* Simulated assignment preview */}
                     <div className="text-sm mt-1">
@@ -2022,7 +3490,11 @@ function App() {
                         ? `${fo.assignedGeneratorIds.join(", ")} @ ${formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(fo.assigned_elute_dt ?? fo.calibration_dt))}`
                         : "—"}
                     </div>
-                    <div className="text-xs text-slate-600">{fo.notes ?? ""}</div>
+                    <div className="text-xs text-slate-600">{fo.notes ? formatNote(fo.notes, settings.activity_unit) : ""}</div>
+                    <button className="mt-1 px-2 py-0.5 rounded bg-slate-200 text-xs" onClick={() => setExpandedTraceId(expandedTraceId === fo.id ? null : fo.id)}>Why?</button>
+                    {expandedTraceId === fo.id && (
+                      <div className="mt-2"><AssignmentTracePanel trace={fo.assignment_trace} unit={settings.activity_unit} /></div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -2038,12 +3510,18 @@ function App() {
                 <Field label="Generator ID">
                   <input className="border p-2 rounded" placeholder="Enter Generator ID" value={genForm.id ?? ""} onChange={(e) => setGenForm({ ...genForm, id: e.target.value })} />
                 </Field>
-                <Field label="Activity (mCi)">
-                  <input type="number" className="border p-2 rounded" placeholder="e.g., 50" value={genForm.activity_mCi ?? ""} onChange={(e) => setGenForm({ ...genForm, activity_mCi: Number(e.target.value) })} />
+                <Field label={`Activity (${settings.activity_unit})`}>
+                  <input type="number" className="border p-2 rounded" placeholder={`e.g., ${activityInputValue(50, settings.activity_unit)}`} value={activityInputValue(genForm.activity_mCi, settings.activity_unit)} onChange={(e) => setGenForm({ ...genForm, activity_mCi: unitToMCi(Number(e.target.value), settings.activity_unit) })} />
                 </Field>
                 <Field label="Efficiency (%)">
                   <input type="number" className="border p-2 rounded" placeholder="e.g., 60" value={genForm.efficiency_pct ?? ""} onChange={(e) => setGenForm({ ...genForm, efficiency_pct: Number(e.target.value) })} />
                 </Field>
+                <Field label="Model (yield curve)">
+                  <select title="Vendor model whose yield-vs-age curve scales the nominal efficiency" className="border p-2 rounded" value={genForm.modelId ?? ""} onChange={(e) => setGenForm({ ...genForm, modelId: e.target.value })}>
+                    <option value="">None (static efficiency)</option>
+                    {generatorModels.map((m) => <option key={m.id} value={m.id}>{m.name}{m.vendor ? ` — ${m.vendor}` : ""}</option>)}
+                  </select>
+                </Field>
                 <Field label="Calibration date/time">
                   <input type="datetime-local" className="border p-2 rounded" value={genForm.calibration_dt ?? nowLocalISO()} onChange={(e) => setGenForm({ ...genForm, calibration_dt: e.target.value })} />
                   <PreviewDateTime iso={genForm.calibration_dt} />
@@ -2059,7 +3537,7 @@ function App() {
 
               <div className="mt-3">
                 {gensWithAvailNow.length === 0 && <div className="text-slate-500">No generators yet.</div>}
-                {gensWithAvailNow.map((g: any) => (
+                {gensWithAvailNow.map((g) => (
                   <div key={g.id} className="border rounded p-2 mb-2 bg-slate-50">
                     <div className="flex justify-between">
                       <div className="font-semibold">
@@ -2070,10 +3548,24 @@ function App() {
                         <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteGenerator(g.id)}>Delete</button>
                       </div>
                     </div>
-                    <div className="text-sm">Activity: {g.activity_mCi ?? "—"} mCi; Eff: {g.efficiency_pct ?? "—"}%</div>
-                    <div className="text-sm">Cal: {formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(g.calibration_dt))}; Last eluted: {formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(g.last_eluted_dt))}</div>
-                    <div className="text-sm">Status: {g._expired ? <span className="text-red-700">Expired</span> : <span className="text-emerald-700">Valid</span>} | Expires in: {g._daysToExpiry} day(s)</div>
-                    <div className="text-sm">Available now since last elution: <span className="font-medium">{g._availNow > 0 ? g._availNow.toFixed(2) : "—"} mCi</span> | Δt: {Math.round(g._deltaSinceLast)} min | Eligible now: {g._eligibleNow ? "Yes" : "No"}</div>
+                    <div className="text-sm">
+                      Activity: {g.activity_mCi != null ? formatActivityWithUnit(g.activity_mCi, settings.activity_unit) : "—"}; Eff: {g.efficiency_pct ?? "—"}% nominal | {Number(g._effectiveEffNow).toFixed(1)}% today
+                      {g.modelId ? <span className="text-slate-500"> ({generatorModels.find((m) => m.id === g.modelId)?.name ?? "unknown model"})</span> : null}
+                    </div>
+                    <div className="text-sm">Cal: {formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(g.calibration_dt))}; Last eluted: {formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(g.last_eluted_dt))}{g.last_eluted_source === "log" ? " (logged)" : ""}</div>
+                    {g.efficiency_fitted_pct != null && (
+                      <div className="text-sm">
+                        Fitted efficiency: {Number(g.efficiency_fitted_pct).toFixed(1)}% from {g.efficiency_fit_n ?? 0} logged elution(s)
+                        {elutionDriftByGen[g.id] != null ? ` | mean drift ${elutionDriftByGen[g.id] >= 0 ? "+" : ""}${elutionDriftByGen[g.id].toFixed(1)}% vs predicted` : ""}
+                      </div>
+                    )}
+                    <div className="text-sm">Eluted today (wear, batches charged once): {formatActivityWithUnit(g._wearDate === todayLocalDate() ? g.total_eluted_today_mCi ?? 0 : 0, settings.activity_unit)}</div>
+                    <div className="text-sm">Status: {g._expired ? <span className="text-red-700">Expired</span> : g._qcReason ? <span className="text-red-700">{g._qcReason}</span> : g._qcWarning ? <span className="text-amber-700">Valid ({g._qcWarning})</span> : <span className="text-emerald-700">Valid</span>} | Expires in: {g._daysToExpiry} day(s)</div>
+                    <div className="text-sm">
+                      Breakthrough: {g._lastQc ? `${formatBreakthroughPct(g._lastQc.breakthrough_pct)}% on ${formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(g._lastQc.test_dt))}` : "never tested"}
+                      {" "}| {g._qcDueInDays >= 0 ? `Next test due in ${g._qcDueInDays} day(s)` : <span className="text-red-700">Test overdue by {-g._qcDueInDays} day(s)</span>}
+                    </div>
+                    <div className="text-sm">Available now since last elution: <span className="font-medium">{g._availNow > 0 ? formatActivityWithUnit(g._availNow, settings.activity_unit) : "—"}</span> | Δt: {Math.round(g._deltaSinceLast)} min | Eligible now: {g._eligibleNow ? "Yes" : "No"}</div>
                   </div>
                 ))}
               </div>
@@ -2086,19 +3578,21 @@ function App() {
                     if (!db) return;
                     const file = ev.target.files?.[0];
                     if (!file) return;
+                    const step = beginUndoStep(`Import ${file.name}`);
                     setBusy(true);
                     try {
                       const text = await file.text();
                       const data = JSON.parse(text);
                       const gens: Generator[] = Array.isArray(data) ? data : (data.generators ?? []);
                       if (!Array.isArray(gens) || gens.length === 0) { alert("No generators found in file."); setBusy(false); return; }
-                      await idbBulkPut(db, STORE_GENERATORS, gens);
+                      await idbBulkPut(db, STORE_GENERATORS, gens, step);
                       setGenerators(await idbGetAll<Generator>(db, STORE_GENERATORS));
                       setToast({ msg: `Imported ${gens.length} generator(s).`, kind: "success" });
                     } catch (e) {
                       console.error(e);
                       setToast({ msg: "Import failed.", kind: "error" });
                     } finally {
+                      endUndoStep(step);
                       setBusy(false);
                       setTimeout(() => setToast(null), 3500);
                     }
@@ -2106,6 +3600,227 @@ function App() {
                 </label>
               </div>
             </Section>
+
+            <Section title="Ge-68 Breakthrough QC">
+              <div className="flex flex-wrap items-end gap-3">
+                {settingsForm ? (
+                  <>
+                    <Field label="Limit (%)">
+                      <input type="number" step="0.0001" className="border p-2 rounded" value={settingsForm.limit} onChange={(e) => setSettingsForm({ ...settingsForm, limit: e.target.value })} />
+                    </Field>
+                    <Field label="Test interval (days)">
+                      <input type="number" className="border p-2 rounded" value={settingsForm.interval} onChange={(e) => setSettingsForm({ ...settingsForm, interval: e.target.value })} />
+                    </Field>
+                    <button disabled={busy} className="px-3 py-2 rounded bg-emerald-600 text-white" onClick={saveBreakthroughSettings}>Save</button>
+                    <button className="px-3 py-2 rounded bg-slate-200" onClick={() => setSettingsForm(null)}>Cancel</button>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-sm">
+                      Limit: <span className="font-medium">{formatBreakthroughPct(settings.breakthrough_limit_pct)}%</span> | Test every <span className="font-medium">{settings.breakthrough_interval_days}</span> day(s).
+                      Generators out of limit or overdue are excluded from planning.
+                    </div>
+                    <button className="px-2 py-1 rounded bg-amber-600 text-white" onClick={() => setSettingsForm({ limit: String(settings.breakthrough_limit_pct), interval: String(settings.breakthrough_interval_days) })}>Edit</button>
+                  </>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-3">
+                <Field label="Generator">
+                  <select className="border p-2 rounded" value={breakthroughForm.generatorId} onChange={(e) => setBreakthroughForm({ ...breakthroughForm, generatorId: e.target.value })}>
+                    <option value="">Select generator</option>
+                    {generators.map((g) => <option key={g.id} value={g.id}>{g.id}</option>)}
+                  </select>
+                </Field>
+                <Field label="Test date/time">
+                  <input type="datetime-local" className="border p-2 rounded" value={breakthroughForm.test_dt} onChange={(e) => setBreakthroughForm({ ...breakthroughForm, test_dt: e.target.value })} />
+                  <PreviewDateTime iso={breakthroughForm.test_dt} />
+                </Field>
+                <Field label="Breakthrough (%)">
+                  <input title="Ge-68 activity in the eluate as % of Ga-68" type="number" step="0.0001" className="border p-2 rounded" placeholder="e.g., 0.0004" value={breakthroughForm.breakthrough_pct} onChange={(e) => setBreakthroughForm({ ...breakthroughForm, breakthrough_pct: e.target.value })} />
+                </Field>
+                <Field label="Operator">
+                  <input className="border p-2 rounded" placeholder="Initials" value={breakthroughForm.operator} onChange={(e) => setBreakthroughForm({ ...breakthroughForm, operator: e.target.value })} />
+                </Field>
+                <Field label="Notes">
+                  <input className="border p-2 rounded" placeholder="Optional" value={breakthroughForm.notes} onChange={(e) => setBreakthroughForm({ ...breakthroughForm, notes: e.target.value })} />
+                </Field>
+                <div className="flex items-end">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={recordBreakthroughTest}>{busy ? "Saving…" : "Record Test"}</button>
+                </div>
+              </div>
+
+              <div className="mt-3 overflow-x-auto">
+                <table className="min-w-full border rounded-lg overflow-hidden">
+                  <thead className="bg-slate-200">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Generator</th>
+                      <th className="px-3 py-2 text-left">Tested</th>
+                      <th className="px-3 py-2 text-left">Breakthrough</th>
+                      <th className="px-3 py-2 text-left">Result</th>
+                      <th className="px-3 py-2 text-left">Operator</th>
+                      <th className="px-3 py-2 text-left">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                    {breakthroughRows.length === 0 && (
+                      <tr><td className="px-3 py-3 text-slate-500" colSpan={6}>No breakthrough tests recorded.</td></tr>
+                    )}
+                    {breakthroughRows.map((t) => {
+                      const pass = t.breakthrough_pct <= settings.breakthrough_limit_pct;
+                      return (
+                        <tr key={t.id} className="border-t">
+                          <td className="px-3 py-2">{t.generatorId}</td>
+                          <td className="px-3 py-2">{formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(t.test_dt))}</td>
+                          <td className="px-3 py-2 font-semibold">{formatBreakthroughPct(t.breakthrough_pct)}%</td>
+                          <td className={`px-3 py-2 ${pass ? "text-emerald-700" : "text-red-700"}`}>{pass ? "Pass" : "Out of limit"}</td>
+                          <td className="px-3 py-2">{t.operator}{t.notes ? <span className="ml-1 text-xs text-slate-500">{t.notes}</span> : null}</td>
+                          <td className="px-3 py-2">
+                            <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteBreakthroughTest(t)}>Delete</button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </Section>
+
+            <Section title="Elution Log (measured activity)">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Field label="Generator">
+                  <select className="border p-2 rounded" value={elutionForm.generatorId} onChange={(e) => setElutionForm({ ...elutionForm, generatorId: e.target.value })}>
+                    <option value="">Select generator</option>
+                    {generators.map((g) => <option key={g.id} value={g.id}>{g.id}</option>)}
+                  </select>
+                </Field>
+                <Field label="Elution date/time">
+                  <input type="datetime-local" className="border p-2 rounded" value={elutionForm.elute_dt} onChange={(e) => setElutionForm({ ...elutionForm, elute_dt: e.target.value })} />
+                  <PreviewDateTime iso={elutionForm.elute_dt} />
+                </Field>
+                <Field label={`Measured activity (${settings.activity_unit})`}>
+                  <input title="Dose calibrator reading right after elution" type="number" className="border p-2 rounded" placeholder={`e.g., ${activityInputValue(18.4, settings.activity_unit)}`} value={elutionForm.measured_mCi} onChange={(e) => setElutionForm({ ...elutionForm, measured_mCi: e.target.value })} />
+                </Field>
+                <Field label="Operator">
+                  <input className="border p-2 rounded" placeholder="Initials" value={elutionForm.operator} onChange={(e) => setElutionForm({ ...elutionForm, operator: e.target.value })} />
+                </Field>
+                <Field label="Notes">
+                  <input className="border p-2 rounded" placeholder="Optional" value={elutionForm.notes} onChange={(e) => setElutionForm({ ...elutionForm, notes: e.target.value })} />
+                </Field>
+                <div className="flex items-end">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={logElution}>{busy ? "Saving…" : "Log Elution"}</button>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 mt-3">
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">Generator</span>
+                  <select className="border p-1 rounded" value={elutionLogFilterGenId} onChange={(e) => setElutionLogFilterGenId(e.target.value)}>
+                    <option value="">All</option>
+                    {generators.map((g) => <option key={g.id} value={g.id}>{g.id}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <div className="mt-2 overflow-x-auto">
+                <table className="min-w-full border rounded-lg overflow-hidden">
+                  <thead className="bg-slate-200">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Generator</th>
+                      <th className="px-3 py-2 text-left">Eluted</th>
+                      <th className="px-3 py-2 text-left">Since previous</th>
+                      <th className="px-3 py-2 text-left">Predicted ({settings.activity_unit})</th>
+                      <th className="px-3 py-2 text-left">Measured ({settings.activity_unit})</th>
+                      <th className="px-3 py-2 text-left">Drift</th>
+                      <th className="px-3 py-2 text-left">Operator</th>
+                      <th className="px-3 py-2 text-left">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                    {elutionLogRows.length === 0 && (
+                      <tr><td className="px-3 py-3 text-slate-500" colSpan={8}>No logged elutions.</td></tr>
+                    )}
+                    {elutionLogRows.map((e) => {
+                      const drift = elutionDriftPct(e);
+                      const sinceMin = minutesBetween(parseLocalDateTimeYYYYMMDDTHHMM(e.previous_elute_dt), parseLocalDateTimeYYYYMMDDTHHMM(e.elute_dt));
+                      return (
+                        <tr key={e.id} className="border-t">
+                          <td className="px-3 py-2">{e.generatorId}</td>
+                          <td className="px-3 py-2">{formatDateTimeFriendly(parseLocalDateTimeYYYYMMDDTHHMM(e.elute_dt))}</td>
+                          <td className="px-3 py-2">{Math.round(sinceMin)} min</td>
+                          <td className="px-3 py-2">{formatActivity(e.predicted_mCi, settings.activity_unit)}</td>
+                          <td className="px-3 py-2 font-semibold">{formatActivity(e.measured_mCi, settings.activity_unit)}</td>
+                          <td className={`px-3 py-2 ${drift != null && Math.abs(drift) > 10 ? "text-red-700" : ""}`}>{drift != null ? `${drift >= 0 ? "+" : ""}${drift.toFixed(1)}%` : "—"}</td>
+                          <td className="px-3 py-2">{e.operator}{e.notes ? <span className="ml-1 text-xs text-slate-500">{e.notes}</span> : null}</td>
+                          <td className="px-3 py-2">
+                            <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteElutionLogEntry(e)}>Delete</button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </Section>
+
+            <Section title="Generator Models (yield vs. age)">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Field label="Model ID (optional; auto if blank)">
+                  <input className="border p-2 rounded" placeholder="Auto (optional)" value={modelForm.id} onChange={(e) => setModelForm({ ...modelForm, id: e.target.value })} />
+                </Field>
+                <Field label="Model name">
+                  <input className="border p-2 rounded" placeholder="e.g., GalliaPharm 50" value={modelForm.name} onChange={(e) => setModelForm({ ...modelForm, name: e.target.value })} />
+                </Field>
+                <Field label="Vendor">
+                  <input className="border p-2 rounded" placeholder="e.g., Eckert & Ziegler" value={modelForm.vendor} onChange={(e) => setModelForm({ ...modelForm, vendor: e.target.value })} />
+                </Field>
+                <Field label="Yield table (age_days:yield_pct, …)">
+                  <input title="Points are linearly interpolated; flat beyond the first and last point" className="border p-2 rounded" placeholder="e.g., 0:75, 180:68, 365:60" value={modelForm.curveText} onChange={(e) => setModelForm({ ...modelForm, curveText: e.target.value })} />
+                </Field>
+                <Field label="…or fitted curve: y0 (%) and k (per day)">
+                  <div className="flex gap-2">
+                    <input type="number" className="border p-2 rounded w-full" placeholder="y0, e.g., 75" value={modelForm.fitY0} onChange={(e) => setModelForm({ ...modelForm, fitY0: e.target.value })} />
+                    <input type="number" className="border p-2 rounded w-full" placeholder="k, e.g., 0.0006" value={modelForm.fitK} onChange={(e) => setModelForm({ ...modelForm, fitK: e.target.value })} />
+                  </div>
+                </Field>
+                <div className="flex items-end">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={addOrUpdateGeneratorModel}>{busy ? "Saving…" : "Add/Update Model"}</button>
+                </div>
+              </div>
+
+              <div className="mt-3">
+                {generatorModels.length === 0 && <div className="text-slate-500">No generator models yet. Generators without a model use their static efficiency.</div>}
+                {generatorModels.map((m) => (
+                  <div key={m.id} className="border rounded p-2 mb-2 bg-slate-50">
+                    <div className="flex justify-between">
+                      <div className="font-semibold">{m.name}{m.vendor ? ` — ${m.vendor}` : ""}</div>
+                      <div className="flex gap-2">
+                        <button className="px-2 py-1 rounded bg-amber-600 text-white" onClick={() => setModelForm({
+                          id: m.id,
+                          name: m.name,
+                          vendor: m.vendor ?? "",
+                          curveText: formatYieldCurve(m.yield_curve),
+                          fitY0: m.yield_fit ? String(m.yield_fit.y0_pct) : "",
+                          fitK: m.yield_fit ? String(m.yield_fit.k_per_day) : "",
+                        })}>Edit</button>
+                        <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteGeneratorModel(m.id)}>Delete</button>
+                      </div>
+                    </div>
+                    <div className="text-sm">
+                      {m.yield_curve && m.yield_curve.length > 0
+                        ? <>Table: {formatYieldCurve(m.yield_curve)}</>
+                        : m.yield_fit ? <>Fit: {m.yield_fit.y0_pct}% × exp(−{m.yield_fit.k_per_day} × age)</> : "—"}
+                    </div>
+                    <div className="text-sm">
+                      Relative yield at 90 / 180 / 365 days: {[90, 180, 365].map((d) => {
+                        const y0 = modelYieldPct(m, 0), y = modelYieldPct(m, d);
+                        return y0 && y != null ? `${((y / y0) * 100).toFixed(0)}%` : "—";
+                      }).join(" / ")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Section>
           </div>
         )}
 
@@ -2123,6 +3838,18 @@ function App() {
                 <Field label="Travel minutes">
                   <input type="number" className="border p-2 rounded" placeholder="e.g., 35" value={hospitalForm.travel_minutes ?? ""} onChange={(e) => setHospitalForm({ ...hospitalForm, travel_minutes: Number(e.target.value) })} />
                 </Field>
+                <Field label="Default elute window: earlier (min)">
+                  <input title="Orders for this hospital may be eluted up to this many minutes before nominal" type="number" className="border p-2 rounded" placeholder="e.g., 10" value={hospitalForm.elute_window_early_min ?? ""} onChange={(e) => setHospitalForm({ ...hospitalForm, elute_window_early_min: Number(e.target.value) })} />
+                </Field>
+                <Field label="Default elute window: later (min)">
+                  <input title="Orders for this hospital may be eluted up to this many minutes after nominal (shorter prep)" type="number" className="border p-2 rounded" placeholder="e.g., 10" value={hospitalForm.elute_window_late_min ?? ""} onChange={(e) => setHospitalForm({ ...hospitalForm, elute_window_late_min: Number(e.target.value) })} />
+                </Field>
+                <Field label="Labeling yield override (%)">
+                  <input title="Blank = use each product's yield" type="number" className="border p-2 rounded" placeholder="Product default" value={hospitalForm.labeling_yield_pct ?? ""} onChange={(e) => setHospitalForm({ ...hospitalForm, labeling_yield_pct: e.target.value === "" ? undefined : Number(e.target.value) })} />
+                </Field>
+                <Field label="Overage override (%)">
+                  <input title="Extra activity for losses in vial and syringe; blank = use each product's overage" type="number" className="border p-2 rounded" placeholder="Product default" value={hospitalForm.overage_pct ?? ""} onChange={(e) => setHospitalForm({ ...hospitalForm, overage_pct: e.target.value === "" ? undefined : Number(e.target.value) })} />
+                </Field>
                 <div className="flex items-end">
                   <button disabled={busy} className={`col-span-2 px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={addOrUpdateHospital}>{busy ? "Saving…" : "Add/Update Hospital"}</button>
                 </div>
@@ -2139,7 +3866,8 @@ function App() {
                       </div>
                     </div>
                     <div className="text-sm">
-                      ID: <span title={`Hospital ID: ${h.id}`}>{shortId(h.id)}</span> | Travel: {h.travel_minutes ?? "—"} min
+                      ID: <span title={`Hospital ID: ${h.id}`}>{shortId(h.id)}</span> | Travel: {h.travel_minutes ?? "—"} min | Elute window: −{h.elute_window_early_min ?? 0}/+{h.elute_window_late_min ?? 0} min
+                      {h.labeling_yield_pct != null ? ` | Yield: ${h.labeling_yield_pct}%` : ""}{h.overage_pct != null ? ` | Overage: +${h.overage_pct}%` : ""}
                     </div>
                   </div>
                 ))}
@@ -2152,25 +3880,23 @@ function App() {
                     if (!db) return;
                     const file = ev.target.files?.[0];
                     if (!file) return;
+                    const step = beginUndoStep(`Import ${file.name}`);
                     setBusy(true);
                     try {
                       const text = await file.text();
                       const data = JSON.parse(text);
                       const hos: Hospital[] = Array.isArray(data)
                         ? data
-                        : (data.hospitals ?? []).map((h: any) => ({
-                            id: h.id,
-                            name: h.name,
-                            travel_minutes: h.travel_minutes ?? (h.distance_km != null ? minutesFromDistance(h.distance_km) : 0),
-                          }));
+                        : (data.hospitals ?? []).map(hospitalFromRaw);
                       if (!Array.isArray(hos) || hos.length === 0) { alert("No hospitals found in file."); setBusy(false); return; }
-                      await idbBulkPut(db, STORE_HOSPITALS, hos);
+                      await idbBulkPut(db, STORE_HOSPITALS, hos, step);
                       setHospitals(await idbGetAll<Hospital>(db, STORE_HOSPITALS));
                       setToast({ msg: `Imported ${hos.length} hospital(s).`, kind: "success" });
                     } catch (e) {
                       console.error(e);
                       setToast({ msg: "Import failed.", kind: "error" });
                     } finally {
+                      endUndoStep(step);
                       setBusy(false);
                       setTimeout(() => setToast(null), 3500);
                     }
@@ -2178,6 +3904,385 @@ function App() {
                 </label>
               </div>
             </Section>
+
+            <Section title="Travel Between Hospitals (minutes)">
+              {hospitals.length < 2 ? (
+                <div className="text-sm text-slate-500">Add at least two hospitals to enter courier legs.</div>
+              ) : (
+                <div className="overflow-auto">
+                  <table className="text-sm border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="p-1"></th>
+                        {hospitals.map((h) => <th key={h.id} className="p-1 text-left">{h.name}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {hospitals.map((a, i) => (
+                        <tr key={a.id}>
+                          <td className="p-1 font-medium">{a.name}</td>
+                          {hospitals.map((b, j) => (
+                            <td key={b.id} className="p-1">
+                              {j <= i ? <span className="text-slate-300">—</span> : (
+                                <input key={`${a.id}-${b.id}-${travelBetween(a, b) ?? ""}`} type="number" min={0} className="border rounded p-1 w-20" placeholder="—" defaultValue={travelBetween(a, b) ?? ""} onBlur={(e) => { if (e.target.value !== String(travelBetween(a, b) ?? "")) setTravelBetween(a.id, b.id, e.target.value); }} />
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="text-xs text-slate-500 mt-1">Same in both directions; blank means the leg is unknown and delivery runs will warn.</div>
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+
+        {/* Recurring orders */}
+        {page === "recurring" && (
+          <div className="grid grid-cols-1 gap-4">
+            <Section title="Recurring Orders (materialized into the Future Vault)">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Field label="Hospital">
+                  <select title="Travel time and elute window are taken from the hospital when each occurrence is created" className="border p-2 rounded" value={recurringForm.hospitalId ?? ""} onChange={(e) => setRecurringForm({ ...recurringForm, hospitalId: e.target.value })}>
+                    <option value="">Select hospital</option>
+                    {hospitals.map((h) => <option key={h.id} value={h.id}>{h.name}</option>)}
+                  </select>
+                </Field>
+                <Field label="Product">
+                  <select className="border p-2 rounded" value={recurringForm.product ?? ""} onChange={(e) => setRecurringForm({ ...recurringForm, product: e.target.value, prep_minutes: productFor(e.target.value, planningCtx)?.default_prep_minutes ?? recurringForm.prep_minutes })}>
+                    {products.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </Field>
+                <Field label="Requested activity @ calibration">
+                  <ActivityAmountInput order={recurringForm} defaultUnit={settings.activity_unit} onChange={(patch) => setRecurringForm({ ...recurringForm, ...patch })} />
+                </Field>
+                <Field label="Calibration time">
+                  <input type="time" className="border p-2 rounded" value={recurringForm.calibration_time ?? ""} onChange={(e) => setRecurringForm({ ...recurringForm, calibration_time: e.target.value })} />
+                </Field>
+                <Field label="Prep minutes">
+                  <input type="number" className="border p-2 rounded" value={recurringForm.prep_minutes ?? ""} onChange={(e) => setRecurringForm({ ...recurringForm, prep_minutes: Number(e.target.value) })} />
+                </Field>
+                <Field label="Repeat every N weeks">
+                  <input type="number" min={1} className="border p-2 rounded" value={recurringForm.every_n_weeks ?? 1} onChange={(e) => setRecurringForm({ ...recurringForm, every_n_weeks: Number(e.target.value) })} />
+                </Field>
+                <Field label="Weekdays">
+                  <div className="flex flex-wrap gap-2">
+                    {[1, 2, 3, 4, 5, 6, 0].map((d) => (
+                      <label key={d} className="flex items-center gap-1 text-sm">
+                        <input type="checkbox" checked={recurringForm.weekdays?.includes(d) ?? false} onChange={(e) => {
+                          const rest = (recurringForm.weekdays ?? []).filter((x) => x !== d);
+                          setRecurringForm({ ...recurringForm, weekdays: e.target.checked ? [...rest, d] : rest });
+                        }} />
+                        {WEEKDAY_LABELS[d]}
+                      </label>
+                    ))}
+                  </div>
+                </Field>
+                <Field label="Start date / end date (optional)">
+                  <div className="flex gap-2">
+                    <input type="date" className="border p-2 rounded w-full" value={recurringForm.start_date ?? ""} onChange={(e) => setRecurringForm({ ...recurringForm, start_date: e.target.value })} />
+                    <input type="date" className="border p-2 rounded w-full" value={recurringForm.end_date ?? ""} onChange={(e) => setRecurringForm({ ...recurringForm, end_date: e.target.value })} />
+                  </div>
+                </Field>
+                <Field label="Skip dates (YYYY-MM-DD, comma separated)">
+                  <input className="border p-2 rounded" placeholder="e.g., 2026-12-24, 2026-12-31" value={recurringForm.skip_text} onChange={(e) => setRecurringForm({ ...recurringForm, skip_text: e.target.value })} />
+                </Field>
+                <div className="flex items-end gap-2">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={saveRecurringTemplate}>{editingRecurringId ? "Save Changes" : "Add Recurring Order"}</button>
+                  <button className="w-full md:w-auto px-3 py-2 rounded bg-slate-200 text-slate-800" onClick={() => { setRecurringForm(emptyRecurringForm()); setEditingRecurringId(null); }}>Clear</button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 mt-4 mb-2">
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">Horizon (days)</span>
+                  <input key={settings.recurring_horizon_days} title="Occurrences are kept materialized this many days ahead" type="number" min={1} className="border rounded p-1 w-20" defaultValue={settings.recurring_horizon_days} onBlur={(e) => {
+                    const days = Number(e.target.value);
+                    if (!Number.isFinite(days) || days < 1) e.target.value = String(settings.recurring_horizon_days);
+                    else if (Math.floor(days) !== settings.recurring_horizon_days) changeRecurringHorizon(days);
+                  }} />
+                </label>
+                <button disabled={busy} className={`px-3 py-1 rounded ${busy ? "bg-indigo-300 text-white" : "bg-indigo-600 text-white"}`} onClick={materializeAllRecurring}>Materialize Now</button>
+              </div>
+
+              {recurringTemplates.length === 0 && <div className="text-slate-500">No recurring orders yet.</div>}
+              {recurringTemplates.map((t) => (
+                <div key={t.id} className="border rounded p-2 mb-2 bg-slate-50">
+                  <div className="flex justify-between">
+                    <div className="font-semibold">
+                      {hospitals.find((h) => h.id === t.hospitalId)?.name ?? t.hospitalId} — {productFor(t.product, planningCtx)?.name ?? t.product}, {orderedActivityLabel(t, settings.activity_unit)}
+                    </div>
+                    <div className="flex gap-2">
+                      <button className="px-2 py-1 rounded bg-amber-600 text-white" onClick={() => onEditRecurring(t)}>Edit</button>
+                      <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteRecurringTemplate(t.id)}>Delete</button>
+                    </div>
+                  </div>
+                  <div className="text-sm">{describeRecurrence(t)}</div>
+                  <div className="text-xs text-slate-500">
+                    {pendingOccurrences(t.id).length} pending occurrence(s) in the vault{t.materialized_through ? `; materialized through ${t.materialized_through}` : ""}{t.closed_dates ? `; waiting for ${t.closed_dates.join(", ")} to reopen` : ""}
+                  </div>
+                </div>
+              ))}
+            </Section>
+          </div>
+        )}
+
+        {page === "calendar" && (
+          <div className="grid grid-cols-1 gap-4">
+            <Section title="Regular Operating Schedule">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex flex-wrap gap-2">
+                  {[1, 2, 3, 4, 5, 6, 0].map((d) => (
+                    <label key={d} className="flex items-center gap-1 text-sm">
+                      <input type="checkbox" checked={settings.operating_weekdays.includes(d)} onChange={(e) => {
+                        const rest = settings.operating_weekdays.filter((x) => x !== d);
+                        changeOperatingPattern({ operating_weekdays: (e.target.checked ? [...rest, d] : rest).sort((a, b) => a - b) });
+                      }} />
+                      {WEEKDAY_LABELS[d]}
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">Opens</span>
+                  <input title="Earliest elution time" type="time" className="border rounded p-1" value={settings.operating_open_time} onChange={(e) => changeOperatingPattern({ operating_open_time: e.target.value })} />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm">Closes</span>
+                  <input title="Latest time a synthesis may run until" type="time" className="border rounded p-1" value={settings.operating_close_time} onChange={(e) => changeOperatingPattern({ operating_close_time: e.target.value })} />
+                </label>
+                <label className="flex items-center gap-2 text-sm" title="When off, the schedule only flags orders; assignment ignores it">
+                  <input type="checkbox" checked={settings.enforce_operating_hours} onChange={(e) => changeOperatingPattern({ enforce_operating_hours: e.target.checked })} />
+                  Enforce in assignment
+                </label>
+              </div>
+              <div className="text-xs text-slate-500 mt-1">
+                {settings.enforce_operating_hours
+                  ? "Enforced: elutions and syntheses outside these hours, or on closed days, are left unmet."
+                  : "Advisory: orders outside these hours or on closed days are flagged ⚠ facility, but assignment still schedules them."}
+              </div>
+            </Section>
+
+            <Section title="Synthesis Modules / Hot Cells">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Field label="Module ID">
+                  <input className="border p-2 rounded" placeholder="e.g., HC1" value={moduleForm.id} onChange={(e) => setModuleForm({ ...moduleForm, id: e.target.value })} />
+                </Field>
+                <Field label="Name">
+                  <input className="border p-2 rounded" placeholder="e.g., Hot cell 1 (Scintomics)" value={moduleForm.name} onChange={(e) => setModuleForm({ ...moduleForm, name: e.target.value })} />
+                </Field>
+                <label className="flex items-center gap-2 mt-5">
+                  <input type="checkbox" checked={moduleForm.active} onChange={(e) => setModuleForm({ ...moduleForm, active: e.target.checked })} />
+                  <span className="text-sm">In service</span>
+                </label>
+                {products.map((p) => (
+                  <Field key={p.id} label={`${p.name} synthesis (min)`}>
+                    <input type="number" className="border p-2 rounded" placeholder={`Blank = ${p.default_prep_minutes} (prep)`} value={moduleForm.minutes[p.id] ?? ""} onChange={(e) => setModuleForm({ ...moduleForm, minutes: { ...moduleForm.minutes, [p.id]: e.target.value } })} />
+                  </Field>
+                ))}
+                <div className="flex items-end">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={addOrUpdateModule}>{busy ? "Saving…" : "Add/Update Module"}</button>
+                </div>
+              </div>
+              <div className="text-xs text-slate-500 mt-2">With no modules in service, synthesis capacity is not limited. Elutions must always fall inside the operating hours above.</div>
+              <div className="mt-3">
+                {synthesisModules.map((m) => (
+                  <div key={m.id} className={`border rounded p-2 mb-2 ${m.active ? "bg-slate-50" : "bg-slate-100 text-slate-500"}`}>
+                    <div className="flex justify-between">
+                      <div className="font-semibold">{m.name} <span className="text-xs text-slate-500">{m.id}{m.active ? "" : " · out of service"}</span></div>
+                      <div className="flex gap-2">
+                        <button className="px-2 py-1 rounded bg-amber-600 text-white" onClick={() => setModuleForm({
+                          id: m.id,
+                          name: m.name,
+                          active: m.active,
+                          minutes: Object.fromEntries(Object.entries(m.synthesis_minutes).map(([k, v]) => [k, String(v)])),
+                        })}>Edit</button>
+                        <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteModule(m.id)}>Delete</button>
+                      </div>
+                    </div>
+                    <div className="text-sm">
+                      {products.map((p) => `${p.name}: ${synthesisMinutes(m, p.id, planningCtx)} min`).join(" | ")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="Holidays, Closures and Extra Operating Days">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Field label="Date">
+                  <input type="date" className="border p-2 rounded" value={calendarForm.date} onChange={(e) => setCalendarForm({ ...calendarForm, date: e.target.value })} />
+                </Field>
+                <Field label="Status">
+                  <select className="border p-2 rounded" value={calendarForm.kind} onChange={(e) => setCalendarForm({ ...calendarForm, kind: e.target.value as "closed" | "open" })}>
+                    <option value="closed">Closed (holiday, cyclotron or hot lab down)</option>
+                    <option value="open">Open (weekend operation or custom hours)</option>
+                  </select>
+                </Field>
+                <Field label="Hours (open days; blank = regular)">
+                  <div className="flex gap-2">
+                    <input disabled={calendarForm.kind !== "open"} type="time" className="border p-2 rounded w-full" value={calendarForm.open_time} onChange={(e) => setCalendarForm({ ...calendarForm, open_time: e.target.value })} />
+                    <input disabled={calendarForm.kind !== "open"} type="time" className="border p-2 rounded w-full" value={calendarForm.close_time} onChange={(e) => setCalendarForm({ ...calendarForm, close_time: e.target.value })} />
+                  </div>
+                </Field>
+                <Field label="Note">
+                  <input className="border p-2 rounded" placeholder="e.g., Christmas, hot cell maintenance" value={calendarForm.note} onChange={(e) => setCalendarForm({ ...calendarForm, note: e.target.value })} />
+                </Field>
+                <div className="flex items-end">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={saveFacilityDay}>{busy ? "Saving…" : "Add/Update Day"}</button>
+                </div>
+              </div>
+              <div className="mt-3">
+                {facilityDays.length === 0 && <div className="text-slate-500">No exceptions; the regular schedule applies.</div>}
+                {[...facilityDays].sort((a, b) => a.id.localeCompare(b.id)).map((d) => {
+                  const affected = closedDayOrderCounts[d.id] ?? 0;
+                  return (
+                    <div key={d.id} className={`border rounded p-2 mb-2 flex justify-between items-center ${d.kind === "closed" ? "bg-red-50" : "bg-emerald-50"}`}>
+                      <div className="text-sm">
+                        <span className="font-semibold">{WEEKDAY_LABELS[parseLocalDateYYYYMMDD(d.id).getDay()]} {d.id}</span> — {d.kind === "closed" ? "Closed" : `Open ${d.open_time || settings.operating_open_time}–${d.close_time || settings.operating_close_time}`}
+                        {d.note ? <span className="text-slate-600"> · {d.note}</span> : null}
+                        {d.kind === "closed" && affected > 0 ? <span className="ml-2 text-xs px-1 rounded bg-red-100 text-red-800">{affected} order(s) on this day</span> : null}
+                      </div>
+                      <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteFacilityDay(d.id)}>Delete</button>
+                    </div>
+                  );
+                })}
+              </div>
+            </Section>
+          </div>
+        )}
+
+        {/* Products (catalog) */}
+        {page === "products" && (
+          <div className="grid grid-cols-1 gap-4">
+            <Section title="Product Catalog">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Field label="Product code">
+                  <input title="Stored on orders; edit an existing code to update it" className="border p-2 rounded" placeholder="e.g., FAPI" value={productForm.id} onChange={(e) => setProductForm({ ...productForm, id: e.target.value })} />
+                </Field>
+                <Field label="Display name">
+                  <input className="border p-2 rounded" placeholder="e.g., FAPI-46" value={productForm.name} onChange={(e) => setProductForm({ ...productForm, name: e.target.value })} />
+                </Field>
+                <Field label="Default prep minutes">
+                  <input type="number" className="border p-2 rounded" value={productForm.default_prep_minutes} onChange={(e) => setProductForm({ ...productForm, default_prep_minutes: e.target.value })} />
+                </Field>
+                <Field label="Labeling yield (%)">
+                  <input title="Radiochemical yield of the synthesis" type="number" className="border p-2 rounded" value={productForm.labeling_yield_pct} onChange={(e) => setProductForm({ ...productForm, labeling_yield_pct: e.target.value })} />
+                </Field>
+                <Field label="Overage (%)">
+                  <input title="Extra activity for residual losses in kit, vial and syringe" type="number" className="border p-2 rounded" value={productForm.overage_pct} onChange={(e) => setProductForm({ ...productForm, overage_pct: e.target.value })} />
+                </Field>
+                <Field label={`Max activity per dose (${settings.activity_unit})`}>
+                  <input type="number" className="border p-2 rounded" placeholder="Blank = no limit" value={productForm.max_activity} onChange={(e) => setProductForm({ ...productForm, max_activity: e.target.value })} />
+                </Field>
+                <label className="flex items-center gap-2 mt-5">
+                  <input type="checkbox" checked={productForm.allow_multi_generator} onChange={(e) => setProductForm({ ...productForm, allow_multi_generator: e.target.checked })} />
+                  <span className="text-sm">Allow combining generators for one dose</span>
+                </label>
+                <div className="flex items-end">
+                  <button disabled={busy} className={`w-full md:w-auto px-3 py-2 rounded ${busy ? "bg-blue-300 text-white" : "bg-blue-600 text-white"}`} onClick={addOrUpdateProduct}>{busy ? "Saving…" : "Add/Update Product"}</button>
+                </div>
+              </div>
+              <div className="mt-3">
+                {products.length === 0 && <div className="text-slate-500">No products yet.</div>}
+                {products.map((p) => (
+                  <div key={p.id} className="border rounded p-2 mb-2 bg-slate-50">
+                    <div className="flex justify-between">
+                      <div className="font-semibold">{p.name} <span className="text-xs text-slate-500">{p.id}</span></div>
+                      <div className="flex gap-2">
+                        <button className="px-2 py-1 rounded bg-amber-600 text-white" onClick={() => setProductForm({
+                          id: p.id,
+                          name: p.name,
+                          default_prep_minutes: String(p.default_prep_minutes),
+                          labeling_yield_pct: String(p.labeling_yield_pct),
+                          overage_pct: String(p.overage_pct ?? 0),
+                          allow_multi_generator: p.allow_multi_generator,
+                          max_activity: p.max_activity_mCi != null ? String(activityInputValue(p.max_activity_mCi, settings.activity_unit)) : "",
+                        })}>Edit</button>
+                        <button className="px-2 py-1 rounded bg-red-600 text-white" onClick={() => deleteProduct(p.id)}>Delete</button>
+                      </div>
+                    </div>
+                    <div className="text-sm">
+                      Prep: {p.default_prep_minutes} min | Labeling yield: {p.labeling_yield_pct}% | Overage: +{p.overage_pct ?? 0}% | Max per dose: {p.max_activity_mCi != null ? formatActivityWithUnit(p.max_activity_mCi, settings.activity_unit) : "no limit"} | Combine generators: {p.allow_multi_generator ? "Yes" : "No"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Section>
+          </div>
+        )}
+
+        {page === "audit" && (
+          <div className="grid grid-cols-1 gap-4">
+            <Section title="Audit Trail">
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-slate-700">From</span>
+                  <input type="date" className="border rounded p-1" value={auditFrom} onChange={(e) => setAuditFrom(e.target.value)} />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-slate-700">To</span>
+                  <input type="date" className="border rounded p-1" value={auditTo} onChange={(e) => setAuditTo(e.target.value)} />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-slate-700">Entity</span>
+                  <select className="border rounded p-1" value={auditStore} onChange={(e) => setAuditStore(e.target.value)}>
+                    <option value="">All</option>
+                    {[...new Set(auditEntries.map((e) => e.store))].sort().map((s) => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </label>
+                <input className="border rounded p-1" placeholder="ID contains…" value={auditEntityQuery} onChange={(e) => setAuditEntityQuery(e.target.value)} />
+                <button className="px-2 py-1 rounded bg-slate-200" onClick={() => setAuditRefresh((n) => n + 1)}>Refresh</button>
+                <button className="ml-auto px-3 py-1 rounded bg-slate-700 text-white" onClick={exportAuditCSV}>Export CSV</button>
+              </div>
+              <div className="text-xs text-slate-500 mb-2">{auditRows.length} entr{auditRows.length === 1 ? "y" : "ies"}. The log is append-only; entries written together share a transaction.</div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full border rounded-lg overflow-hidden text-sm">
+                  <thead className="bg-slate-200">
+                    <tr>
+                      <th className="px-2 py-1 text-left">At</th>
+                      <th className="px-2 py-1 text-left">User</th>
+                      <th className="px-2 py-1 text-left">Action</th>
+                      <th className="px-2 py-1 text-left">Entity</th>
+                      <th className="px-2 py-1 text-left">ID</th>
+                      <th className="px-2 py-1 text-left">Changed</th>
+                      <th className="px-2 py-1 text-left"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white">
+                    {auditRows.length === 0 && (
+                      <tr><td className="px-2 py-3 text-slate-500" colSpan={7}>No audit entries for these filters.</td></tr>
+                    )}
+                    {auditRows.map((e) => (
+                      <React.Fragment key={e.id}>
+                        <tr className="border-t">
+                          <td className="px-2 py-1 font-mono">{e.at.replace("T", " ")}</td>
+                          <td className="px-2 py-1">{e.user}</td>
+                          <td className="px-2 py-1">{e.action}</td>
+                          <td className="px-2 py-1">{e.store}</td>
+                          <td className="px-2 py-1" title={e.entity_id}>{e.entity_id === "*" ? "—" : shortId(e.entity_id)}</td>
+                          <td className="px-2 py-1">{auditChangedFields(e.before, e.after).join(", ") || "—"}</td>
+                          <td className="px-2 py-1">
+                            <button className="px-2 rounded bg-slate-200" onClick={() => setExpandedAuditId(expandedAuditId === e.id ? null : e.id)}>Details</button>
+                          </td>
+                        </tr>
+                        {expandedAuditId === e.id && (
+                          <tr className="bg-slate-50">
+                            <td className="px-2 py-2" colSpan={7}>
+                              <div className="grid grid-cols-2 gap-2">
+                                <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(e.before, null, 2)}</pre>
+                                <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(e.after, null, 2)}</pre>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Section>
           </div>
         )}
 
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb";
+import {
+  DB_VERSION, MIGRATIONS, ORDER_INDEXES, STORE_AUDIT, STORE_FUTURE_ORDERS, STORE_GENERATORS, STORE_HOSPITALS, STORE_ORDERS, STORE_RUNS,
+  type Migration, pendingMigrations, upgradeSchema,
+} from "./migrations";
+
+// Opens `name` at `version` with only the steps that existed at that version
+function openAt(factory: IDBFactory, name: string, version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = factory.open(name, version);
+    req.onupgradeneeded = (ev) => upgradeSchema(req.result, req.transaction!, ev.oldVersion, MIGRATIONS.filter((m) => m.version <= version));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// The first released schema (version 2): four stores keyed on "id", no indexes
+function openBaselineV2(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = factory.open(name, 2);
+    req.onupgradeneeded = () => {
+      for (const store of [STORE_GENERATORS, STORE_HOSPITALS, STORE_ORDERS, STORE_FUTURE_ORDERS]) req.result.createObjectStore(store, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function putAll(db: IDBDatabase, store: string, values: unknown[]) {
+  const tx = db.transaction(store, "readwrite");
+  for (const v of values) tx.objectStore(store).put(v);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+const legacyOrders = [
+  { id: "O1", hospitalId: "H1", product: "PSMA", calibration_dt: "2025-03-04 09:30" },
+  { id: "O2", hospitalId: "H2", product: "Dotatate", calibration_dt: "2025-03-04T14:00" },
+  { id: "O3", hospitalId: "H1", product: "PSMA", calibration_dt: "2025-03-05 08:15" },
+];
+
+describe("pendingMigrations", () => {
+  it("returns the steps after the stored version, in order", () => {
+    expect(pendingMigrations(0).map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(pendingMigrations(11).map((m) => m.version)).toEqual(MIGRATIONS.filter((m) => m.version > 11).map((m) => m.version));
+    expect(pendingMigrations(DB_VERSION)).toEqual([]);
+  });
+
+  it("rejects a list that is out of order", () => {
+    const step = (version: number): Migration => ({ version, description: "", up: () => {} });
+    expect(() => pendingMigrations(0, [step(10), step(12), step(11)])).toThrow("Migration 11 is not after 12");
+    expect(() => pendingMigrations(0, [step(10), step(10)])).toThrow();
+  });
+});
+
+describe("upgrading to the current schema", () => {
+  it("creates every store and index on a fresh install", async () => {
+    const db = await openAt(new IDBFactory(), "fresh", DB_VERSION);
+    for (const store of [STORE_ORDERS, STORE_FUTURE_ORDERS]) {
+      expect([...db.transaction(store).objectStore(store).indexNames].sort()).toEqual(ORDER_INDEXES.map(([name]) => name).sort());
+    }
+    expect([...db.transaction(STORE_AUDIT).objectStore(STORE_AUDIT).indexNames].sort()).toEqual(["at", "store"]);
+    db.close();
+  });
+
+  it("keeps the data of a baseline version 2 database and normalizes its times", async () => {
+    const generators = [{ id: "G1", activity_mCi: 50, efficiency_pct: 60, calibration_dt: "2025-02-01 06:00", last_eluted_dt: "2025-03-03 18:00" }];
+    const hospitals = [{ id: "H1", name: "General", distance_km: 30 }, { id: "H2", name: "Clinic", distance_km: 45 }];
+    const factory = new IDBFactory();
+    const old = await openBaselineV2(factory, "baseline");
+    expect([...old.objectStoreNames].sort()).toEqual([STORE_FUTURE_ORDERS, STORE_GENERATORS, STORE_HOSPITALS, STORE_ORDERS]);
+    await putAll(old, STORE_GENERATORS, generators);
+    await putAll(old, STORE_HOSPITALS, hospitals);
+    await putAll(old, STORE_ORDERS, legacyOrders);
+    await putAll(old, STORE_FUTURE_ORDERS, legacyOrders.map((o) => ({ ...o, id: `F${o.id}` })));
+    old.close();
+
+    const db = await openAt(factory, "baseline", DB_VERSION);
+    expect(db.version).toBe(DB_VERSION);
+    for (const store of [STORE_AUDIT, STORE_RUNS]) expect(db.objectStoreNames.contains(store)).toBe(true);
+    expect(await request(db.transaction(STORE_GENERATORS).objectStore(STORE_GENERATORS).getAll())).toEqual(generators);
+    expect(await request(db.transaction(STORE_HOSPITALS).objectStore(STORE_HOSPITALS).getAll())).toEqual(hospitals);
+    for (const [store, prefix] of [[STORE_ORDERS, ""], [STORE_FUTURE_ORDERS, "F"]]) {
+      const st = db.transaction(store).objectStore(store);
+      expect(await request(st.getAll())).toEqual(legacyOrders.map((o) => ({ ...o, id: `${prefix}${o.id}`, calibration_dt: o.calibration_dt.replace(" ", "T") })));
+      const day = await request(st.index("calibration_dt").getAll(IDBKeyRange.bound("2025-03-04", "2025-03-04T\uffff")));
+      expect(day.map((o) => o.id).sort()).toEqual([`${prefix}O1`, `${prefix}O2`]);
+    }
+    db.close();
+  });
+
+  it.each(MIGRATIONS.slice(0, -1).map((m) => m.version))("keeps and indexes orders stored at version %i", async (from) => {
+    // Space-separated times could only be stored before version 12 normalized them
+    const seeded = from < 12 ? legacyOrders : legacyOrders.map((o) => ({ ...o, calibration_dt: o.calibration_dt.replace(" ", "T") }));
+    const factory = new IDBFactory();
+    const old = await openAt(factory, "legacy", from);
+    await putAll(old, STORE_ORDERS, seeded);
+    await putAll(old, STORE_FUTURE_ORDERS, seeded.map((o) => ({ ...o, id: `F${o.id}` })));
+    old.close();
+
+    const db = await openAt(factory, "legacy", DB_VERSION);
+    expect(db.version).toBe(DB_VERSION);
+    expect(db.objectStoreNames.contains(STORE_AUDIT)).toBe(true);
+    for (const store of [STORE_ORDERS, STORE_FUTURE_ORDERS]) {
+      const st = db.transaction(store).objectStore(store);
+      const all = await request(st.getAll());
+      expect(all).toHaveLength(legacyOrders.length);
+      expect(all.every((o) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(o.calibration_dt))).toBe(true);
+
+      // Records written before the index existed are found by a date range and by hospital
+      const day = await request(st.index("calibration_dt").getAll(IDBKeyRange.bound("2025-03-04", "2025-03-04T\uffff")));
+      expect(day.map((o) => o.calibration_dt).sort()).toEqual(["2025-03-04T09:30", "2025-03-04T14:00"]);
+      expect(await request(st.index("hospitalId").count("H1"))).toBe(2);
+      expect(await request(st.index("product").count("Dotatate"))).toBe(1);
+    }
+    db.close();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * IndexedDB layout for the planner: store names and the ordered schema migrations.
+ * Kept apart from App.tsx so upgrades can be exercised without the UI.
+ */
+
+export const DB_NAME = "Ga68Planner";
+export const STORE_GENERATORS = "generators";
+export const STORE_HOSPITALS = "hospitals";
+export const STORE_ORDERS = "orders";
+export const STORE_FUTURE_ORDERS = "future_orders";
+export const STORE_GENERATOR_MODELS = "generator_models";
+export const STORE_ELUTION_LOG = "elution_log";
+export const STORE_BREAKTHROUGH_TESTS = "breakthrough_tests";
+export const STORE_SETTINGS = "settings";
+export const STORE_PRODUCTS = "products";
+export const STORE_RECURRING = "recurring_orders";
+export const STORE_CALENDAR = "facility_calendar";
+export const STORE_MODULES = "synthesis_modules";
+export const STORE_RUNS = "delivery_runs";
+export const STORE_AUDIT = "audit_log";
+
+// ---------- Schema migrations ----------
+// One step per schema version, applied in order inside the upgrade transaction
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: IDBDatabase, tx: IDBTransaction) => void;
+};
+
+export const ORDER_INDEXES: [name: string, keyPath: string][] = [
+  ["calibration_dt", "calibration_dt"],
+  ["hospitalId", "hospitalId"],
+  ["product", "product"],
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 10,
+    description: "Object stores through delivery runs",
+    up: (db) => {
+      const stores = [
+        STORE_GENERATORS, STORE_HOSPITALS, STORE_ORDERS, STORE_FUTURE_ORDERS, STORE_GENERATOR_MODELS, STORE_ELUTION_LOG,
+        STORE_BREAKTHROUGH_TESTS, STORE_SETTINGS, STORE_PRODUCTS, STORE_RECURRING, STORE_CALENDAR, STORE_MODULES, STORE_RUNS,
+      ];
+      for (const name of stores) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" });
+      }
+    },
+  },
+  {
+    version: 11,
+    description: "Calibration date, hospital and product indexes on live and future orders",
+    up: (_db, tx) => {
+      for (const name of [STORE_ORDERS, STORE_FUTURE_ORDERS]) {
+        const st = tx.objectStore(name);
+        for (const [index, keyPath] of ORDER_INDEXES) {
+          if (!st.indexNames.contains(index)) st.createIndex(index, keyPath);
+        }
+      }
+    },
+  },
+  {
+    version: 12,
+    description: "Rewrite 'YYYY-MM-DD HH:MM' calibration times with a 'T' so date ranges see every order",
+    up: (_db, tx) => {
+      for (const name of [STORE_ORDERS, STORE_FUTURE_ORDERS]) {
+        tx.objectStore(name).openCursor().onsuccess = (ev) => {
+          const cursor = (ev.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          const value = cursor.value as { calibration_dt: string };
+          const fixed = normalizeCalibrationDt(value.calibration_dt);
+          if (fixed !== value.calibration_dt) cursor.update({ ...value, calibration_dt: fixed });
+          cursor.continue();
+        };
+      }
+    },
+  },
+  {
+    version: 13,
+    description: "Append-only audit log, indexed by time and store",
+    up: (db) => {
+      if (db.objectStoreNames.contains(STORE_AUDIT)) return;
+      const st = db.createObjectStore(STORE_AUDIT, { keyPath: "id" });
+      st.createIndex("at", "at");
+      st.createIndex("store", "store");
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Steps still to run for a database at `oldVersion`; throws if the list is out of order
+export function pendingMigrations(oldVersion: number, migrations: Migration[] = MIGRATIONS): Migration[] {
+  migrations.forEach((m, i) => {
+    if (i > 0 && m.version <= migrations[i - 1].version) throw new Error(`Migration ${m.version} is not after ${migrations[i - 1].version}`);
+  });
+  return migrations.filter((m) => m.version > oldVersion);
+}
+
+export function normalizeCalibrationDt(s: string): string {
+  const m = typeof s === "string" ? s.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2})$/) : null;
+  return m ? `${m[1]}T${m[2]}` : s;
+}
+
+// Runs the steps a database at `oldVersion` still needs, inside its upgrade transaction
+export function upgradeSchema(db: IDBDatabase, tx: IDBTransaction, oldVersion: number, migrations: Migration[] = MIGRATIONS) {
+  for (const m of pendingMigrations(oldVersion, migrations)) m.up(db, tx);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignOrders, bundleJson, contributionShares, DEFAULT_PRODUCTS, DEFAULT_SETTINGS, formatNote, parseLocalDateTimeYYYYMMDDTHHMM,
+  recurrenceDates, requiredBreakdown, type Generator, type Order, type PlanningContext, type RecurringOrder,
+} from "./planning";
+
+const order: Order = { id: "O1", hospitalId: "H1", product: "PSMA", requested_mCi_at_cal: 10, calibration_dt: "2025-03-04T10:00", prep_minutes: 15, travel_minutes: 30 };
+const cal = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
+const minutesBefore = (min: number) => new Date(cal.getTime() - min * 60000);
+
+const ctx: PlanningContext = {
+  productsById: { PSMA: { id: "PSMA", name: "PSMA", default_prep_minutes: 15, labeling_yield_pct: 80, overage_pct: 10, allow_multi_generator: true } },
+  hospitalsById: { H1: { id: "H1", name: "General", travel_minutes: 30, labeling_yield_pct: 50 }, H2: { id: "H2", name: "Clinic", travel_minutes: 45 } },
+};
+
+describe("requiredBreakdown", () => {
+  it("doubles the dose one Ga-68 half-life before calibration", () => {
+    const b = requiredBreakdown(order, minutesBefore(67.71));
+    expect(b.decayFactor).toBeCloseTo(2, 6);
+    expect(b.yieldFactor).toBe(1);
+    expect(b.overageFactor).toBe(1);
+    expect(b.required).toBeCloseTo(20, 6);
+  });
+
+  it("never decays forward for an elution after calibration", () => {
+    expect(requiredBreakdown(order, minutesBefore(-20)).decayFactor).toBe(1);
+  });
+
+  it("takes yield and overage from the product unless the hospital overrides them", () => {
+    const fromProduct = requiredBreakdown({ ...order, hospitalId: "H2" }, cal, ctx);
+    expect(fromProduct.yieldFactor).toBeCloseTo(1.25, 10);
+    expect(fromProduct.overageFactor).toBeCloseTo(1.1, 10);
+    expect(fromProduct.required).toBeCloseTo(13.75, 10);
+
+    const fromHospital = requiredBreakdown(order, cal, ctx);
+    expect(fromHospital.yieldFactor).toBe(2);
+    expect(fromHospital.overageFactor).toBeCloseTo(1.1, 10);
+    expect(fromHospital.required).toBeCloseTo(22, 10);
+  });
+});
+
+describe("contributionShares", () => {
+  it("drains each generator in order until the dose is covered", () => {
+    expect(contributionShares([5, 10, 3], 12)).toEqual([5, 7, 0]);
+    expect(contributionShares([-1, 5], 3)).toEqual([0, 3]);
+  });
+
+  it("spreads a shortfall in proportion to what each generator has", () => {
+    expect(contributionShares([2, 3], 10)).toEqual([4, 6]);
+  });
+
+  it("splits evenly when nothing is available", () => {
+    expect(contributionShares([0, 0], 4)).toEqual([2, 2]);
+  });
+});
+
+describe("recurrenceDates", () => {
+  // 2025-03-03 is a Monday
+  const template: RecurringOrder = {
+    id: "R1", hospitalId: "H1", product: "PSMA", requested_mCi_at_cal: 10, calibration_time: "09:00", prep_minutes: 15,
+    weekdays: [1, 4], every_n_weeks: 1, start_date: "2025-03-03", skip_dates: [],
+  };
+
+  it("lists the chosen weekdays inside the range", () => {
+    expect(recurrenceDates(template, "2025-03-01", "2025-03-16")).toEqual(["2025-03-03", "2025-03-06", "2025-03-10", "2025-03-13"]);
+    expect(recurrenceDates(template, "2025-03-07", "2025-03-09")).toEqual([]);
+  });
+
+  it("counts every-n-weeks from the start date's week", () => {
+    const fortnightly = { ...template, weekdays: [1], every_n_weeks: 2, start_date: "2025-03-05" };
+    expect(recurrenceDates(fortnightly, "2025-03-01", "2025-03-31")).toEqual(["2025-03-17", "2025-03-31"]);
+  });
+
+  it("stops at the end date and leaves out skipped dates", () => {
+    const weekdays = { ...template, weekdays: [1, 2, 3, 4, 5], end_date: "2025-03-07", skip_dates: ["2025-03-05"] };
+    expect(recurrenceDates(weekdays, "2025-03-01", "2025-03-31")).toEqual(["2025-03-03", "2025-03-04", "2025-03-06", "2025-03-07"]);
+  });
+});
+
+describe("order notes", () => {
+  const generators: Generator[] = [
+    { id: "G1", activity_mCi: 50, efficiency_pct: 60, calibration_dt: "2025-03-01T06:00", last_eluted_dt: "2025-03-03T18:00" },
+    { id: "G2", activity_mCi: 30, efficiency_pct: 60, calibration_dt: "2025-03-01T06:00", last_eluted_dt: "2025-03-03T18:00" },
+  ];
+  const orders: Order[] = [
+    order,
+    { ...order, id: "O2", hospitalId: "H2", batchId: "B1", calibration_dt: "2025-03-04T12:00" },
+    { ...order, id: "O3", hospitalId: "H2", batchId: "B1", calibration_dt: "2025-03-04T12:00", requested_mCi_at_cal: 5 },
+    { ...order, id: "O4", requested_mCi_at_cal: 500 }, // more than both generators hold
+  ];
+
+  it.each(["optimal", "max_efficiency"] as const)("stay readable in an exported bundle (%s)", (strategy) => {
+    const { orders: assigned } = assignOrders(orders, generators, { minLockMinutes: 20, strategy });
+    const json = bundleJson(
+      {
+        generators, hospitals: [], orders: assigned, future_orders: [], generator_models: [], elution_log: [], breakthrough_tests: [],
+        products: DEFAULT_PRODUCTS, recurring_orders: [], facility_calendar: [], synthesis_modules: [], delivery_runs: [], settings: DEFAULT_SETTINGS,
+      },
+      { exportedAt: "2025-03-04T08:00:00.000Z", minLockMinutes: 20, activityUnit: "MBq", timeZone: "UTC" }
+    );
+    expect(json).not.toContain("{mCi:");
+    const notes = (JSON.parse(json).orders as Order[]).map((o) => o.notes ?? "");
+    expect(notes.every((n) => /required @ elute \d+\.\d{2} mCi/i.test(n))).toBe(true);
+    expect(notes.some((n) => /batch total \d+\.\d{2} mCi/.test(n))).toBe(true);
+  });
+
+  it("show activities in the current unit", () => {
+    const note = "G1 used; required @ elute 12.50 mCi (batch total 20.00 mCi)";
+    expect(formatNote(note, "mCi")).toBe(note);
+    expect(formatNote(note, "MBq")).toBe("G1 used; required @ elute 462.5 MBq (batch total 740.0 MBq)");
+  });
+});
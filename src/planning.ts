@@ -0,0 +1,1984 @@
+/**
+ * Planning engine: decay physics, generator assignment, batches, the facility calendar and recurring orders.
+ * No React or IndexedDB here; App.tsx owns storage and the UI.
+ */
+
+// ---------- Constants ----------
+const HALF_LIFE_GA_MIN = 67.71;
+const HALF_LIFE_GE_DAYS = 270.95;
+const LN2 = Math.log(2);
+const LAMBDA_GA = LN2 / HALF_LIFE_GA_MIN;
+const LAMBDA_GE = LN2 / (HALF_LIFE_GE_DAYS * 24 * 60);
+
+const SPEED_KMH = 60;
+const minutesFromDistance = (km: number) => Math.max(0, Math.round((km / SPEED_KMH) * 60));
+
+// ---------- Types ----------
+export type Generator = {
+  id: string;
+  modelId?: string; // GeneratorModel supplying the yield-vs-age curve
+  activity_mCi: number;
+  efficiency_pct: number; // nominal (as-calibrated) elution yield
+  calibration_dt: string; // "YYYY-MM-DDTHH:MM" local
+  last_eluted_dt: string; // "YYYY-MM-DDTHH:MM" local
+  last_eluted_source?: "manual" | "log"; // "log" = set from a measured elution
+  efficiency_fitted_pct?: number; // rolling fit from the elution log; overrides efficiency_pct
+  efficiency_fit_n?: number; // log entries behind the fit
+  total_eluted_today_mCi?: number;
+  _wearDate?: string;
+};
+
+// Vendor yield curve. The curve's shape scales the generator's nominal efficiency:
+// effective = efficiency_pct × yield(age) / yield(0)
+export type GeneratorModel = {
+  id: string;
+  name: string;
+  vendor?: string;
+  yield_curve?: { age_days: number; yield_pct: number }[]; // table, linearly interpolated
+  yield_fit?: { y0_pct: number; k_per_day: number }; // fitted: y0 × exp(−k × age)
+};
+
+// A measured elution, as read on the dose calibrator
+export type ElutionLogEntry = {
+  id: string;
+  generatorId: string;
+  elute_dt: string; // "YYYY-MM-DDTHH:MM" local
+  previous_elute_dt: string; // generator's previous elution, for ingrowth
+  measured_mCi: number;
+  predicted_mCi: number; // planner's prediction before this measurement
+  operator: string;
+  notes?: string;
+};
+
+// Ge-68 breakthrough QC: Ge-68 activity in the eluate as % of Ga-68
+export type BreakthroughTest = {
+  id: string;
+  generatorId: string;
+  test_dt: string; // "YYYY-MM-DDTHH:MM" local
+  breakthrough_pct: number;
+  operator: string;
+  notes?: string;
+};
+
+// Catalog entry; the id is the product code stored on orders
+export type Product = {
+  id: string;
+  name: string;
+  default_prep_minutes: number;
+  labeling_yield_pct: number;
+  overage_pct?: number; // residual losses in kit, vial and syringe
+  allow_multi_generator: boolean; // one dose may be drawn from several generators
+  max_activity_mCi?: number; // per dose at calibration
+};
+
+// Seeded into an empty catalog; reproduces the behaviour before the catalog existed
+export const DEFAULT_PRODUCTS: Product[] = [
+  { id: "PSMA", name: "PSMA", default_prep_minutes: 15, labeling_yield_pct: 100, allow_multi_generator: true },
+  { id: "Dotatate", name: "Dotatate", default_prep_minutes: 15, labeling_yield_pct: 100, allow_multi_generator: false },
+  { id: "Research", name: "Research", default_prep_minutes: 15, labeling_yield_pct: 100, allow_multi_generator: false },
+];
+
+// Activities are stored in mCi; the unit only affects entry and display
+export type ActivityUnit = "mCi" | "MBq" | "GBq";
+
+// App-wide preferences, kept as a single record in STORE_SETTINGS
+export type AppSettings = {
+  id: "app";
+  breakthrough_limit_pct: number;
+  breakthrough_interval_days: number;
+  activity_unit: ActivityUnit;
+  max_generators_per_dose: number;
+  flush_morning_time: string; // HH:MM, "" for none
+  flush_evening_time: string;
+  recurring_horizon_days: number;
+  operating_weekdays: number[]; // 0 = Sunday
+  operating_open_time: string; // "HH:MM"
+  operating_close_time: string;
+  enforce_operating_hours: boolean; // assigners refuse elutions outside the schedule
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  id: "app",
+  breakthrough_limit_pct: 0.001,
+  breakthrough_interval_days: 7,
+  activity_unit: "mCi",
+  max_generators_per_dose: 3,
+  flush_morning_time: "",
+  flush_evening_time: "",
+  recurring_horizon_days: 28,
+  operating_weekdays: [1, 2, 3, 4, 5],
+  operating_open_time: "06:00",
+  operating_close_time: "18:00",
+  enforce_operating_hours: false,
+};
+
+// Lookups the planner needs beyond the generator record itself
+export type PlanningContext = {
+  modelsById?: Record<string, GeneratorModel>;
+  productsById?: Record<string, Product>;
+  hospitalsById?: Record<string, Hospital>;
+  activityUnit?: ActivityUnit; // for suggestion labels
+  maxGeneratorsPerDose?: number;
+  breakthrough?: { testsByGen: Record<string, BreakthroughTest[]>; limit_pct: number; interval_days: number };
+  calendar?: FacilityCalendar; // shift hours and closed days; unset unless enforced
+  modules?: SynthesisModule[];
+};
+
+export type Hospital = {
+  id: string;
+  name: string;
+  travel_minutes: number;
+  elute_window_early_min?: number; // default window for this hospital's orders
+  elute_window_late_min?: number;
+  labeling_yield_pct?: number; // overrides the product's yield for this hospital
+  overage_pct?: number; // overrides the product's overage for this hospital
+  travel_between?: Record<string, number>; // courier minutes to other hospitals, by hospital id
+};
+
+// Exception to the weekly operating pattern: a holiday/closure, or an extra or shortened operating day
+export type FacilityDay = {
+  id: string; // "YYYY-MM-DD"
+  kind: "closed" | "open";
+  open_time?: string; // "HH:MM"; blank keeps the regular hours
+  close_time?: string;
+  note?: string;
+};
+
+// One courier trip from the lab through several hospitals
+export type DeliveryRun = {
+  id: string;
+  date: string; // "YYYY-MM-DD"
+  name: string;
+  departure_dt?: string; // fixed departure; blank = latest that makes every calibration
+  stop_order_ids: string[]; // in driving order
+};
+
+// Hot cell or synthesis module; one synthesis at a time
+export type SynthesisModule = {
+  id: string;
+  name: string;
+  active: boolean;
+  synthesis_minutes: Record<string, number>; // per product code; missing = the product's prep minutes
+};
+
+// Standing order; occurrences are materialized into the Future Vault over a rolling horizon
+export type RecurringOrder = {
+  id: string;
+  hospitalId: string;
+  product: string;
+  requested_mCi_at_cal: number;
+  ordered_amount?: number;
+  ordered_unit?: ActivityUnit;
+  calibration_time: string; // "HH:MM" local
+  prep_minutes: number;
+  weekdays: number[]; // 0 = Sunday … 6 = Saturday
+  every_n_weeks: number;
+  start_date: string; // "YYYY-MM-DD"
+  end_date?: string;
+  skip_dates: string[];
+  materialized_through?: string; // last date occurrences have been generated for
+  closed_dates?: string[]; // covered dates skipped because the facility was closed; retried until they pass
+};
+
+export type Order = {
+  id: string;
+  hospitalId: string;
+  product: string; // Product.id from the catalog
+  requested_mCi_at_cal: number;
+  ordered_amount?: number; // as placed by the hospital, in ordered_unit
+  ordered_unit?: ActivityUnit;
+  calibration_dt: string; // "YYYY-MM-DDTHH:MM" local
+  prep_minutes: number;
+  travel_minutes: number;
+  elute_window_early_min?: number; // may elute this many minutes before nominal (more decay)
+  elute_window_late_min?: number; // may elute this many minutes after nominal (shorter prep)
+  batchId?: string; // orders sharing a batch on the same day come from one elution + synthesis
+  recurring_id?: string; // RecurringOrder this occurrence was materialized from
+  assigned_module_id?: string; // synthesis module booked for this order's batch
+  delivery_run_id?: string; // courier run carrying this dose; travel_minutes then comes from the route
+  status?: OrderStatus; // missing = requested (orders saved before lifecycle tracking)
+  status_history?: OrderStatusChange[]; // oldest first
+  cancel_reason?: string;
+  assignedGeneratorIds?: string[];
+  assigned_elute_dt?: string;
+  assigned_delta_minutes?: number[];
+  assignment_trace?: AssignmentTrace;
+  notes?: string;
+};
+
+export type OrderStatus = "requested" | "confirmed" | "eluted" | "dispensed" | "shipped" | "delivered" | "cancelled";
+
+// One lifecycle transition and who made it
+export type OrderStatusChange = {
+  status: OrderStatus;
+  at: string; // "YYYY-MM-DDTHH:MM" local
+  by: string;
+  reason?: string;
+};
+
+// Why an order got (or did not get) its generators, as decided by the last assignment run
+export type AssignmentTrace = {
+  solver: "greedy" | "optimal" | "simulation";
+  elute_dt: string; // elution time the candidates were evaluated at
+  required_mCi: number;
+  window_tries: number; // elution times tried within the order's window
+  outcome: string;
+  candidates: {
+    generatorId: string;
+    available_mCi: number;
+    minutes_since_last: number;
+    eligible: boolean;
+    rank?: number; // position in the solver's ranking among eligible generators
+    chosen: boolean;
+    reason?: string; // lock/expiry/QC, or why an eligible generator was passed over
+  }[];
+};
+
+// ---------- Helpers ----------
+export function minutesBetween(a: Date, b: Date) {
+  return (b.getTime() - a.getTime()) / 60000;
+}
+
+export function parseLocalDateYYYYMMDD(s: string): Date {
+  const [y, m, d] = s.split("-").map(Number);
+  return new Date(y, (m ?? 1) - 1, d ?? 1, 0, 0, 0, 0);
+}
+
+// ✅ FIXED parser: supports 'T' or space → YYYY-MM-DDTHH:MM and YYYY-MM-DD HH:MM
+export function parseLocalDateTimeYYYYMMDDTHHMM(s: string): Date {
+  if (!s || typeof s !== "string") return new Date(NaN);
+  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/);
+  if (m) {
+    const y = Number(m[1]), mo = Number(m[2]), d = Number(m[3]), h = Number(m[4]), mi = Number(m[5]);
+    return new Date(y, (mo ?? 1) - 1, d ?? 1, h ?? 0, mi ?? 0, 0, 0);
+  }
+  // Fallback: handles ISO with seconds/timezone but beware UTC parsing
+  return new Date(s);
+}
+
+export const pad2 = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+export function formatLocal(dt: Date) {
+  const yyyy = dt.getFullYear();
+  const mm = pad2(dt.getMonth() + 1);
+  const dd = pad2(dt.getDate());
+  const hh = pad2(dt.getHours());
+  const mi = pad2(dt.getMinutes());
+  return `${yyyy}-${mm}-${dd}T${hh}:${mi}`;
+}
+
+function dateOnly(dt: Date) {
+  const yyyy = dt.getFullYear();
+  const mm = pad2(dt.getMonth() + 1);
+  const dd = pad2(dt.getDate());
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function todayLocalDate() {
+  return dateOnly(new Date());
+}
+
+export function nowLocalISO() {
+  return formatLocal(new Date());
+}
+
+export function genId(prefix: string) {
+  const d = new Date();
+  const stamp = `${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}-${pad2(d.getHours())}${pad2(d.getMinutes())}${pad2(d.getSeconds())}${String(d.getMilliseconds()).padStart(3, "0")}`;
+  const rnd = Math.floor(Math.random() * 1e6).toString().padStart(6, "0");
+  return `${prefix}-${stamp}-${rnd}`;
+}
+
+export function genOrderIdDateBased(hospitalId?: string, product?: string) {
+  const d = new Date();
+  const yyyy = d.getFullYear();
+  const mm = pad2(d.getMonth() + 1);
+  const dd = pad2(d.getDate());
+  const hh = pad2(d.getHours());
+  const mi = pad2(d.getMinutes());
+  const ss = pad2(d.getSeconds());
+  const ms = d.getMilliseconds().toString().padStart(3, "0");
+  const h = hospitalId ? hospitalId : "H";
+  const p = product ? product : "P";
+  return `O-${yyyy}${mm}${dd}-${hh}${mi}${ss}${ms}-${h}-${p}`;
+}
+
+export function setDatePreserveTime(origISO: string, newDateYYYYMMDD: string): string {
+  const orig = parseLocalDateTimeYYYYMMDDTHHMM(origISO);
+  const [y, m, d] = newDateYYYYMMDD.split("-").map(Number);
+  const newDt = new Date(orig);
+  newDt.setFullYear(y, (m ?? 1) - 1, d ?? 1);
+  return formatLocal(newDt);
+}
+
+export function formatTimeLocal(dt: Date) {
+  return `${pad2(dt.getHours())}:${pad2(dt.getMinutes())}`;
+}
+
+export function formatDateFriendly(dt: Date) {
+  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  return `${months[dt.getMonth()]} ${dt.getDate()}, ${dt.getFullYear()}`;
+}
+
+export function formatDateTimeFriendly(dt: Date) {
+  return `${formatDateFriendly(dt)} ${formatTimeLocal(dt)}`;
+}
+
+// Safe extract local date string
+export function localDateStringFromISO(isoLocal: string): string {
+  return dateOnly(parseLocalDateTimeYYYYMMDDTHHMM(isoLocal));
+}
+
+// Short ID (display only)
+export function shortId(id: string, len: number = 6): string {
+  const clean = (id ?? "").replace(/[^A-Za-z0-9]/g, "");
+  if (!clean) return id ?? "";
+  return clean.length <= len ? clean : clean.slice(-len);
+}
+
+// Hospitals from older bundles may carry distance_km instead of travel_minutes
+export type RawHospital = Omit<Hospital, "travel_minutes"> & { travel_minutes?: number; distance_km?: number };
+
+export function hospitalFromRaw(h: RawHospital): Hospital {
+  return {
+    id: h.id,
+    name: h.name,
+    travel_minutes: h.travel_minutes ?? (h.distance_km != null ? minutesFromDistance(h.distance_km) : 0),
+    elute_window_early_min: h.elute_window_early_min,
+    elute_window_late_min: h.elute_window_late_min,
+    labeling_yield_pct: h.labeling_yield_pct,
+    overage_pct: h.overage_pct,
+    travel_between: h.travel_between,
+  };
+}
+
+// ---------- Range helpers (restore) ----------
+export function addDays(yyyyMMDD: string, days: number): string {
+  const d = parseLocalDateYYYYMMDD(yyyyMMDD);
+  d.setDate(d.getDate() + days);
+  return dateOnly(d);
+}
+export function startOfWeekMonday(yyyyMMDD: string): string {
+  const d = parseLocalDateYYYYMMDD(yyyyMMDD);
+  const dow = d.getDay(); // 0=Sun..6=Sat
+  const offset = (dow + 6) % 7; // Monday=0
+  return addDays(yyyyMMDD, -offset);
+}
+export function inDateRange(dYYYYMMDD: string, startYYYYMMDD: string, endYYYYMMDD: string): boolean {
+  return dYYYYMMDD >= startYYYYMMDD && dYYYYMMDD <= endYYYYMMDD;
+}
+
+// ---------- Wear normalization (restore) ----------
+export function normalizeDailyWear(gens: Generator[], dayYYYYMMDD: string): Generator[] {
+  return gens.map((g) => {
+    const anyG = g as Generator;
+    if (anyG._wearDate !== dayYYYYMMDD) {
+      return { ...g, total_eluted_today_mCi: 0, _wearDate: dayYYYYMMDD };
+    }
+    return g;
+  });
+}
+
+// ---------- Activity units ----------
+export const ACTIVITY_UNITS: ActivityUnit[] = ["mCi", "MBq", "GBq"];
+const MBQ_PER_MCI = 37;
+export const ACTIVITY_DIGITS: Record<ActivityUnit, number> = { mCi: 2, MBq: 1, GBq: 3 };
+
+export function isActivityUnit(u: unknown): u is ActivityUnit {
+  return typeof u === "string" && (ACTIVITY_UNITS as string[]).includes(u);
+}
+
+export function mCiToUnit(value_mCi: number, unit: ActivityUnit): number {
+  if (unit === "MBq") return value_mCi * MBQ_PER_MCI;
+  if (unit === "GBq") return (value_mCi * MBQ_PER_MCI) / 1000;
+  return value_mCi;
+}
+
+export function unitToMCi(value: number, unit: ActivityUnit): number {
+  if (unit === "MBq") return value / MBQ_PER_MCI;
+  if (unit === "GBq") return (value * 1000) / MBQ_PER_MCI;
+  return value;
+}
+
+// Number only, rounded for the unit (tables, CSV)
+export function formatActivity(value_mCi: number, unit: ActivityUnit): string {
+  return mCiToUnit(Number(value_mCi ?? 0), unit).toFixed(ACTIVITY_DIGITS[unit]);
+}
+
+export function formatActivityWithUnit(value_mCi: number, unit: ActivityUnit): string {
+  return `${formatActivity(value_mCi, unit)} ${unit}`;
+}
+
+// Stored notes are plain text with activities in mCi, so exports stay readable
+function noteActivity(value_mCi: number): string {
+  return formatActivityWithUnit(value_mCi, "mCi");
+}
+
+// Display only: a note's mCi activities in the current unit
+export function formatNote(note: string, unit: ActivityUnit): string {
+  return unit === "mCi" ? note : note.replace(/(-?\d+(?:\.\d+)?) mCi\b/g, (_, v: string) => formatActivityWithUnit(Number(v), unit));
+}
+
+// Value for an editable field: converted, but without display rounding
+export function activityInputValue(value_mCi: number | undefined, unit: ActivityUnit): number | "" {
+  if (value_mCi == null || !Number.isFinite(value_mCi)) return "";
+  return Number(mCiToUnit(value_mCi, unit).toPrecision(6));
+}
+
+// What the hospital asked for, e.g. "185 MBq"; older orders fall back to the display unit
+export function orderedActivityLabel(order: Pick<Order, "requested_mCi_at_cal" | "ordered_amount" | "ordered_unit">, unit: ActivityUnit): string {
+  if (order.ordered_unit && order.ordered_amount != null) return `${order.ordered_amount} ${order.ordered_unit}`;
+  return formatActivityWithUnit(order.requested_mCi_at_cal, unit);
+}
+
+// ---------- Confirmation text ----------
+export function buildOrderProcessedConfirmation(order: Order, hospitals: Hospital[], unit: ActivityUnit): string {
+  const clientName = hospitals.find(h => h.id === order.hospitalId)?.name ?? order.hospitalId;
+  const dt = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
+  const timeStr = isNaN(dt.getTime()) ? "—" : formatTimeLocal(dt);
+  return `${orderedActivityLabel(order, unit)} dose with cal time of ${timeStr} for "${clientName}" has been processed.`;
+}
+
+// ---------- Expiry helpers ----------
+function generatorExpiryDate(gen: Generator): Date {
+  const cal = parseLocalDateTimeYYYYMMDDTHHMM(gen.calibration_dt);
+  const exp = new Date(cal);
+  exp.setFullYear(exp.getFullYear() + 1);
+  exp.setDate(exp.getDate() - 1);
+  exp.setHours(23, 59, 0, 0);
+  return exp;
+}
+export function isGeneratorExpired(gen: Generator, eluteDt: Date): boolean {
+  return eluteDt.getTime() > generatorExpiryDate(gen).getTime();
+}
+export function daysUntilExpiry(gen: Generator, ref: Date = new Date()): number {
+  const ms = generatorExpiryDate(gen).getTime() - ref.getTime();
+  return Math.ceil(ms / (1000 * 60 * 60 * 24));
+}
+
+// ---------- Breakthrough QC ----------
+export function formatBreakthroughPct(pct: number): string {
+  return String(Number(pct.toPrecision(3)));
+}
+
+// Most recent test on or before `at`
+export function latestBreakthroughTest(gen: Generator, at: Date, ctx?: PlanningContext): BreakthroughTest | undefined {
+  const stamp = formatLocal(at);
+  return (ctx?.breakthrough?.testsByGen[gen.id] ?? [])
+    .filter((t) => t.test_dt <= stamp)
+    .sort((a, b) => b.test_dt.localeCompare(a.test_dt))[0];
+}
+
+// Why the generator fails breakthrough QC at `at` (like "Expired"); undefined if it passes.
+// Out of limit or overdue at the elution time both exclude it.
+export function breakthroughQcReason(gen: Generator, at: Date, ctx?: PlanningContext): string | undefined {
+  const qc = ctx?.breakthrough;
+  if (!qc) return undefined;
+  const last = latestBreakthroughTest(gen, at, ctx);
+  if (last && last.breakthrough_pct > qc.limit_pct) {
+    return `Breakthrough out of limit (${formatBreakthroughPct(last.breakthrough_pct)}% > ${formatBreakthroughPct(qc.limit_pct)}%)`;
+  }
+  return breakthroughTestDue(gen, at, ctx);
+}
+
+// Whether a test is due by `at`. An untested generator gets one test interval from its calibration date.
+export function breakthroughTestDue(gen: Generator, at: Date, ctx?: PlanningContext): string | undefined {
+  const qc = ctx?.breakthrough;
+  if (!qc) return undefined;
+  const last = latestBreakthroughTest(gen, at, ctx);
+  const since = parseLocalDateTimeYYYYMMDDTHHMM(last ? last.test_dt : gen.calibration_dt);
+  if (minutesBetween(since, at) / (60 * 24) <= qc.interval_days) return undefined;
+  return last ? "Breakthrough test overdue" : "Breakthrough never tested";
+}
+
+// ---------- Yield curves ----------
+export function modelYieldPct(model: GeneratorModel, ageDays: number): number | null {
+  const table = [...(model.yield_curve ?? [])].sort((a, b) => a.age_days - b.age_days);
+  if (table.length > 0) {
+    if (ageDays <= table[0].age_days) return table[0].yield_pct;
+    for (let i = 1; i < table.length; i++) {
+      const a = table[i - 1], b = table[i];
+      if (ageDays <= b.age_days) {
+        const f = (ageDays - a.age_days) / Math.max(1e-9, b.age_days - a.age_days);
+        return a.yield_pct + f * (b.yield_pct - a.yield_pct);
+      }
+    }
+    return table[table.length - 1].yield_pct;
+  }
+  if (model.yield_fit) return model.yield_fit.y0_pct * Math.exp(-model.yield_fit.k_per_day * Math.max(0, ageDays));
+  return null;
+}
+
+// Measured yield beats the datasheet once the elution log has produced a fit
+function nominalEfficiencyPct(gen: Generator): number {
+  return gen.efficiency_fitted_pct ?? gen.efficiency_pct ?? 60;
+}
+
+// yield(age) / yield(0) from the generator's model; 1 without a model
+function yieldAgeFactor(gen: Generator, at: Date, ctx?: PlanningContext): number {
+  const model = gen.modelId ? ctx?.modelsById?.[gen.modelId] : undefined;
+  if (!model) return 1;
+  const ageDays = minutesBetween(parseLocalDateTimeYYYYMMDDTHHMM(gen.calibration_dt), at) / (60 * 24);
+  const y0 = modelYieldPct(model, 0);
+  const yAge = modelYieldPct(model, ageDays);
+  if (!y0 || yAge == null) return 1;
+  return yAge / y0;
+}
+
+export function effectiveEfficiencyPct(gen: Generator, at: Date, ctx?: PlanningContext): number {
+  return nominalEfficiencyPct(gen) * yieldAgeFactor(gen, at, ctx);
+}
+
+// "0:100, 180:92, 365:85" → [{age_days, yield_pct}]
+export function parseYieldCurve(text: string): { age_days: number; yield_pct: number }[] {
+  return text
+    .split(/[,;\n]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [age, y] = part.split(":").map((x) => Number(x.trim()));
+      return { age_days: age, yield_pct: y };
+    })
+    .filter((p) => Number.isFinite(p.age_days) && Number.isFinite(p.yield_pct));
+}
+
+export function formatYieldCurve(curve?: { age_days: number; yield_pct: number }[]): string {
+  return (curve ?? []).map((p) => `${p.age_days}:${p.yield_pct}`).join(", ");
+}
+
+// ---------- Product catalog ----------
+export function productFor(code: string, ctx?: PlanningContext): Product | undefined {
+  return ctx?.productsById ? ctx.productsById[code] : DEFAULT_PRODUCTS.find((p) => p.id === code);
+}
+
+function productAllowsCombination(code: string, ctx?: PlanningContext): boolean {
+  return productFor(code, ctx)?.allow_multi_generator ?? false;
+}
+
+// ---------- Physics ----------
+function parentAtTime_mCi(gen: Generator, eluteDt: Date): number {
+  const cal = parseLocalDateTimeYYYYMMDDTHHMM(gen.calibration_dt);
+  const minutes = minutesBetween(cal, eluteDt);
+  const A0 = gen.activity_mCi;
+  return A0 * Math.exp(-LAMBDA_GE * minutes);
+}
+export function availableAtElute_mCi(
+  gen: Generator,
+  eluteDt: Date,
+  minLockMinutes: number,
+  ctx?: PlanningContext
+): { available: number; eligible: boolean; reason?: string; deltaSinceLastMin: number } {
+  const last = parseLocalDateTimeYYYYMMDDTHHMM(gen.last_eluted_dt);
+  const dtMin = Math.max(0, minutesBetween(last, eluteDt));
+  const eligibleLock = dtMin >= minLockMinutes;
+  const expired = isGeneratorExpired(gen, eluteDt);
+  const qcReason = breakthroughQcReason(gen, eluteDt, ctx);
+  const parent = parentAtTime_mCi(gen, eluteDt);
+  const efficiency = effectiveEfficiencyPct(gen, eluteDt, ctx) / 100;
+  const available = parent * efficiency * (1 - Math.exp(-LAMBDA_GA * dtMin));
+  const eligible = eligibleLock && !expired && !qcReason;
+  const reason = expired ? "Expired" : qcReason ?? (eligibleLock ? undefined : `Lock: needs ${Math.ceil(minLockMinutes - dtMin)} more min`);
+  return { available, eligible, reason, deltaSinceLastMin: dtMin };
+}
+function requiredAtElute_mCi(order: Order, ctx?: PlanningContext): { required: number; eluteDt: Date } {
+  const calDt = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
+  const deltaMinutes = (order.prep_minutes ?? 15) + (order.travel_minutes ?? 0);
+  const eluteDt = new Date(calDt.getTime() - deltaMinutes * 60000);
+  return { required: requiredAtEluteTime_mCi(order, eluteDt, ctx), eluteDt };
+}
+function requiredAtEluteTime_mCi(order: Order, eluteDt: Date, ctx?: PlanningContext): number {
+  return requiredBreakdown(order, eluteDt, ctx).required;
+}
+
+// Yield and overage: the hospital's override, else the product's catalog values
+function orderLossFactors(order: Order, ctx?: PlanningContext): { yieldPct: number; overagePct: number } {
+  const product = productFor(order.product, ctx);
+  const hospital = ctx?.hospitalsById?.[order.hospitalId];
+  return {
+    yieldPct: hospital?.labeling_yield_pct ?? product?.labeling_yield_pct ?? 100,
+    overagePct: hospital?.overage_pct ?? product?.overage_pct ?? 0,
+  };
+}
+
+// requested × decay back to elution ÷ labeling yield × (1 + overage)
+export function requiredBreakdown(order: Order, eluteDt: Date, ctx?: PlanningContext): { decayFactor: number; yieldFactor: number; overageFactor: number; required: number } {
+  const calDt = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
+  const minutes = Math.max(0, minutesBetween(eluteDt, calDt));
+  const { yieldPct, overagePct } = orderLossFactors(order, ctx);
+  const decayFactor = Math.exp(LAMBDA_GA * minutes);
+  const yieldFactor = 100 / Math.max(1, yieldPct);
+  const overageFactor = 1 + Math.max(0, overagePct) / 100;
+  const required = (order.requested_mCi_at_cal ?? 0) * decayFactor * yieldFactor * overageFactor;
+  return { decayFactor, yieldFactor, overageFactor, required };
+}
+
+function formatRequiredBreakdown(b: { decayFactor: number; yieldFactor: number; overageFactor: number }): string {
+  return `decay ×${b.decayFactor.toFixed(3)}, yield ×${b.yieldFactor.toFixed(3)}, overage ×${b.overageFactor.toFixed(3)}`;
+}
+
+// ---------- Elution window ----------
+const ELUTE_WINDOW_STEP_MIN = 5;
+
+// Candidate elution times within the job's window, nominal first, then alternating later/earlier.
+// Eluting later gains ingrowth and loses less to decay but eats into prep, so it is capped at prep.
+// A batch can only move as far as its tightest member allows.
+function eluteWindowCandidates(job: DispenseJob): Date[] {
+  const eluteDt = job.eluteDt;
+  const early = Math.min(...job.members.map((m) => Math.max(0, Number(m.elute_window_early_min ?? 0))));
+  const late = Math.min(...job.members.map((m) => Math.min(Math.max(0, Number(m.elute_window_late_min ?? 0)), Math.max(0, m.prep_minutes ?? 15))));
+  const out: Date[] = [eluteDt];
+  for (let off = ELUTE_WINDOW_STEP_MIN; off <= Math.max(early, late); off += ELUTE_WINDOW_STEP_MIN) {
+    if (off <= late) out.push(new Date(eluteDt.getTime() + off * 60000));
+    if (off <= early) out.push(new Date(eluteDt.getTime() - off * 60000));
+  }
+  return out;
+}
+
+// ---------- Batches (one elution + synthesis split into several doses) ----------
+type DispenseJob = {
+  key: string;
+  batchId?: string;
+  members: Order[];
+  product: Order["product"];
+  eluteDt: Date; // nominal: earliest member's elution; the recorded one when pinned
+  required: number; // summed over members at the nominal elution
+  pinned?: Order; // member whose recorded draw is replayed (eluted or later, or held by the caller), never reassigned
+};
+
+// Each dose is back-decayed from its own calibration time to the shared elution
+function jobRequiredAtEluteTime_mCi(members: Order[], eluteDt: Date, ctx?: PlanningContext): number {
+  return members.reduce((sum, m) => sum + requiredAtEluteTime_mCi(m, eluteDt, ctx), 0);
+}
+
+export function batchKey(o: Order): string {
+  return o.batchId ? `B:${localDateStringFromISO(o.calibration_dt)}:${o.batchId}` : `O:${o.id}`;
+}
+
+function buildDispenseJobs(orders: Order[], ctx?: PlanningContext, pinnedIds?: Set<string>): DispenseJob[] {
+  const groups = new Map<string, Order[]>();
+  for (const o of orders) {
+    const key = batchKey(o);
+    const list = groups.get(key);
+    if (list) list.push(o);
+    else groups.set(key, [o]);
+  }
+  return [...groups.entries()].map(([key, members]) => {
+    const sortedMembers = [...members].sort(
+      (a, b) => parseLocalDateTimeYYYYMMDDTHHMM(a.calibration_dt).getTime() - parseLocalDateTimeYYYYMMDDTHHMM(b.calibration_dt).getTime()
+    );
+    const pinned = sortedMembers.find(isOrderFrozen) ?? sortedMembers.find((m) => pinnedIds?.has(m.id));
+    const eluteDt = pinned?.assigned_elute_dt
+      ? parseLocalDateTimeYYYYMMDDTHHMM(pinned.assigned_elute_dt)
+      : new Date(Math.min(...sortedMembers.map((m) => requiredAtElute_mCi(m, ctx).eluteDt.getTime())));
+    return {
+      key,
+      batchId: sortedMembers[0].batchId || undefined,
+      members: sortedMembers,
+      product: sortedMembers[0].product,
+      eluteDt,
+      required: jobRequiredAtEluteTime_mCi(sortedMembers, eluteDt, ctx),
+      pinned,
+    };
+  });
+}
+
+// ---------- Order lifecycle ----------
+export const ORDER_STATUSES: OrderStatus[] = ["requested", "confirmed", "eluted", "dispensed", "shipped", "delivered", "cancelled"];
+export const FROZEN_STATUSES = new Set<OrderStatus>(["eluted", "dispensed", "shipped", "delivered"]);
+
+export function orderStatus(o: Pick<Order, "status">): OrderStatus {
+  return o.status ?? "requested";
+}
+
+// Eluted or later: the activity has left the generator, so assignment must stay as recorded
+export function isOrderFrozen(o: Pick<Order, "status">): boolean {
+  return FROZEN_STATUSES.has(orderStatus(o));
+}
+
+// Next step forward, or null once delivered or cancelled
+export function nextOrderStatus(o: Pick<Order, "status">): OrderStatus | null {
+  const s = orderStatus(o);
+  if (s === "delivered" || s === "cancelled") return null;
+  return ORDER_STATUSES[ORDER_STATUSES.indexOf(s) + 1];
+}
+
+export function withOrderStatus(o: Order, status: OrderStatus, by: string, reason?: string): Order {
+  const change: OrderStatusChange = { status, at: nowLocalISO(), by, ...(reason ? { reason } : {}) };
+  return { ...o, status, status_history: [...(o.status_history ?? []), change], cancel_reason: status === "cancelled" ? reason : undefined };
+}
+
+// A cancelled order gives its generators and module back
+function releaseCancelledOrder(o: Order): Order {
+  return {
+    ...o,
+    assignedGeneratorIds: [],
+    assigned_delta_minutes: [],
+    assigned_module_id: undefined,
+    assignment_trace: undefined,
+    notes: `Cancelled${o.cancel_reason ? `: ${o.cancel_reason}` : ""}.`,
+  };
+}
+
+// The draw a pinned job already made, so later jobs see each generator as it really is
+function pinnedDraw(job: DispenseJob, gens: Generator[], ctx?: PlanningContext) {
+  const source = job.pinned ?? job.members[0];
+  const genIdx = (source.assignedGeneratorIds ?? []).map((id) => gens.findIndex((g) => g.id === id)).filter((i) => i >= 0);
+  const avail = genIdx.map((i) => availableAtElute_mCi(gens[i], job.eluteDt, 0, ctx));
+  return {
+    genIdx,
+    avail: avail.map((a) => a.available),
+    deltas: avail.map((a) => a.deltaSinceLastMin),
+    required: jobRequiredAtEluteTime_mCi(job.members, job.eluteDt, ctx),
+    booking: bookingsFromOrders([source], ctx)[0] as ModuleBooking | undefined,
+  };
+}
+
+function isBatchJob(job: DispenseJob): boolean {
+  return job.members.length > 1 || !!job.batchId;
+}
+
+// Per-member note prefix naming the batch the dose was drawn with
+function batchNote(job: DispenseJob): string {
+  return isBatchJob(job) ? `Batch ${job.batchId ?? "—"} (${job.members.length} doses); ` : "";
+}
+
+// A batch member's own requirement, with the batch's draw kept apart from it
+function requiredNote(job: DispenseJob, member: Order, eluteDt: Date, jobRequired: number, ctx?: PlanningContext): string {
+  if (!isBatchJob(job)) return noteActivity(jobRequired);
+  return `${noteActivity(requiredAtEluteTime_mCi(member, eluteDt, ctx))} (batch total ${noteActivity(jobRequired)})`;
+}
+
+// Size and total required activity per batch, keyed like buildDispenseJobs
+export function batchSummaries(orders: Order[], ctx?: PlanningContext): Record<string, { batchId: string; count: number; required: number }> {
+  const out: Record<string, { batchId: string; count: number; required: number }> = {};
+  for (const job of buildDispenseJobs(orders.filter((o) => !!o.batchId), ctx)) {
+    const eluteDt = orderEluteInfo(job.members[0], ctx).eluteDt;
+    out[job.key] = { batchId: job.batchId ?? "", count: job.members.length, required: jobRequiredAtEluteTime_mCi(job.members, eluteDt, ctx) };
+  }
+  return out;
+}
+
+export function batchLabel(o: Order, summaries: ReturnType<typeof batchSummaries>): string {
+  const b = o.batchId ? summaries[batchKey(o)] : undefined;
+  return b ? `${b.batchId} ×${b.count}` : "";
+}
+
+// Elution time actually used for an order: the assigned one if scheduled, else nominal
+export function orderEluteInfo(order: Order, ctx?: PlanningContext): { required: number; eluteDt: Date } {
+  if (order.assigned_elute_dt) {
+    const eluteDt = parseLocalDateTimeYYYYMMDDTHHMM(order.assigned_elute_dt);
+    if (!isNaN(eluteDt.getTime())) return { required: requiredAtEluteTime_mCi(order, eluteDt, ctx), eluteDt };
+  }
+  return requiredAtElute_mCi(order, ctx);
+}
+
+// ---------- Elution log calibration ----------
+export const EFFICIENCY_FIT_WINDOW = 5;
+
+// What the generator would have given at 100% nominal efficiency for a logged elution
+function theoreticalFullYield_mCi(gen: Generator, entry: ElutionLogEntry, ctx?: PlanningContext): number {
+  const eluteDt = parseLocalDateTimeYYYYMMDDTHHMM(entry.elute_dt);
+  const prev = parseLocalDateTimeYYYYMMDDTHHMM(entry.previous_elute_dt);
+  const dtMin = Math.max(0, minutesBetween(prev, eluteDt));
+  return parentAtTime_mCi(gen, eluteDt) * (1 - Math.exp(-LAMBDA_GA * dtMin)) * yieldAgeFactor(gen, eluteDt, ctx);
+}
+
+// Rolling least-squares fit through the origin over the most recent entries: eff = Σ(m·t) / Σ(t²)
+export function fitGeneratorEfficiency(gen: Generator, entries: ElutionLogEntry[], ctx?: PlanningContext): { pct: number; n: number } | null {
+  const recent = entries
+    .filter((e) => e.generatorId === gen.id)
+    .sort((a, b) => b.elute_dt.localeCompare(a.elute_dt))
+    .slice(0, EFFICIENCY_FIT_WINDOW)
+    .map((e) => ({ m: e.measured_mCi, t: theoreticalFullYield_mCi(gen, e, ctx) }))
+    .filter((p) => p.t > 0 && Number.isFinite(p.m));
+  if (recent.length === 0) return null;
+  const num = recent.reduce((s, p) => s + p.m * p.t, 0);
+  const den = recent.reduce((s, p) => s + p.t * p.t, 0);
+  if (den <= 0) return null;
+  return { pct: Math.min(100, Math.max(0, (num / den) * 100)), n: recent.length };
+}
+
+export function elutionDriftPct(entry: ElutionLogEntry): number | null {
+  if (!(entry.predicted_mCi > 0)) return null;
+  return ((entry.measured_mCi - entry.predicted_mCi) / entry.predicted_mCi) * 100;
+}
+
+// ---------- Decision trace ----------
+function buildAssignmentTrace(
+  solver: AssignmentTrace["solver"],
+  eluteDt: Date,
+  required: number,
+  candidates: { gen: Generator; available: number; eligible: boolean; reason?: string; deltaSinceLastMin: number }[],
+  ranked: { gen: Generator }[],
+  chosenIds: string[],
+  windowTries: number
+): AssignmentTrace {
+  const rankById = new Map(ranked.map((c, i) => [c.gen.id, i + 1]));
+  const passedOver = solver === "optimal" ? "Not used in the best day plan" : "Ranked lower";
+  return {
+    solver,
+    elute_dt: formatLocal(eluteDt),
+    required_mCi: required,
+    window_tries: windowTries,
+    outcome: chosenIds.length === 0 ? "Insufficient availability" : chosenIds.length === 1 ? `Single generator ${chosenIds[0]}` : `Combined generators ${chosenIds.join(" + ")}`,
+    candidates: candidates
+      .map((c) => {
+        const chosen = chosenIds.includes(c.gen.id);
+        const reason = !c.eligible
+          ? c.reason ?? "Ineligible"
+          : chosen ? undefined : c.available < required ? "Too little activity" : passedOver;
+        return {
+          generatorId: c.gen.id,
+          available_mCi: c.available,
+          minutes_since_last: c.deltaSinceLastMin,
+          eligible: c.eligible,
+          rank: rankById.get(c.gen.id),
+          chosen,
+          reason,
+        };
+      })
+      .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.generatorId.localeCompare(b.generatorId)),
+  };
+}
+
+// ---------- Generator combinations ----------
+const DEFAULT_MAX_GENERATORS_PER_DOSE = 3;
+
+function maxGeneratorsPerDose(ctx?: PlanningContext): number {
+  return Math.max(2, Math.floor(ctx?.maxGeneratorsPerDose ?? DEFAULT_MAX_GENERATORS_PER_DOSE));
+}
+
+/**
+ * Sets of 2..maxGens candidates that jointly cover `required`, none of which could cover it alone.
+ * Members are picked strongest first and a set stops growing once it covers, so every set is
+ * minimal. Sorted fewest generators first, then least excess.
+ */
+function generatorCombos<T extends { available: number }>(cands: T[], required: number, maxGens: number): { members: T[]; total: number }[] {
+  const pool = cands.filter((c) => c.available > 0 && c.available < required).sort((a, b) => b.available - a.available);
+  const out: { members: T[]; total: number }[] = [];
+  const pick: T[] = [];
+  function walk(start: number, total: number) {
+    if (total >= required) { out.push({ members: [...pick], total }); return; }
+    const slots = maxGens - pick.length;
+    for (let i = start; i < pool.length && slots > 0; i++) {
+      if (total + pool[i].available * slots < required) break; // the rest are weaker still
+      pick.push(pool[i]);
+      walk(i + 1, total + pool[i].available);
+      pick.pop();
+    }
+  }
+  walk(0, 0);
+  return out.sort((a, b) => a.members.length - b.members.length || a.total - b.total);
+}
+
+// What each generator actually gives, in draw order: everything it has until the last one tops up the rest
+export function contributionShares(available: number[], required: number): number[] {
+  const total = available.reduce((s, a) => s + a, 0);
+  if (total <= 0) return available.map(() => required / Math.max(1, available.length));
+  let remaining = required;
+  const shares = available.map((a) => {
+    const share = Math.min(Math.max(0, a), remaining);
+    remaining -= share;
+    return share;
+  });
+  // Short draws (never planned, but possible after rounding) spread the gap like before
+  return remaining > 0 ? shares.map((s, i) => s + (remaining * Math.max(0, available[i])) / total) : shares;
+}
+
+// ---------- Assignment strategies ----------
+// A generator as the strategies see it at one elution time
+type GeneratorCandidate = {
+  gen: Generator;
+  available: number;
+  eligible: boolean;
+  reason?: string;
+  deltaSinceLastMin: number;
+  efficiency: number;
+  parentAtElute: number;
+  wear: number;
+};
+
+// Orders eligible candidates, best first
+type RankingPolicy = (a: GeneratorCandidate, b: GeneratorCandidate) => number;
+
+// Picks the generators for one draw from the ranked candidates; empty when the draw cannot be covered
+type CombinationPolicy = (ranked: GeneratorCandidate[], required: number, job: DispenseJob, ctx?: PlanningContext) => GeneratorCandidate[];
+
+// Availability and eligibility at an elution time, and what a draw does to the generator
+type LockPolicy = {
+  evaluate: (g: Generator, eluteDt: Date, minLockMinutes: number, ctx?: PlanningContext) => GeneratorCandidate;
+  commit: (g: Generator, eluteDt: Date, share: number) => void;
+};
+
+type AssignmentStrategy = {
+  mode: "live" | "simulation";
+  rank: RankingPolicy;
+  combine: CombinationPolicy;
+  lock: LockPolicy;
+};
+
+type RankingId = "max_efficiency" | "least_wear" | "spread_load";
+export type AssignmentStrategyId = "optimal" | RankingId;
+
+const RANKING_POLICIES: Record<RankingId, RankingPolicy> = {
+  // Highest effective yield first; the original greedy order
+  max_efficiency: (a, b) =>
+    b.efficiency - a.efficiency || b.available - a.available || b.deltaSinceLastMin - a.deltaSinceLastMin || a.wear - b.wear || a.gen.id.localeCompare(b.gen.id),
+  // Least eluted today first
+  least_wear: (a, b) =>
+    a.wear - b.wear || b.available - a.available || b.efficiency - a.efficiency || a.gen.id.localeCompare(b.gen.id),
+  // Longest rested first, so draws rotate across generators
+  spread_load: (a, b) =>
+    b.deltaSinceLastMin - a.deltaSinceLastMin || a.wear - b.wear || b.available - a.available || a.gen.id.localeCompare(b.gen.id),
+};
+
+export const STRATEGY_OPTIONS: { id: AssignmentStrategyId; label: string }[] = [
+  { id: "optimal", label: "Optimal (whole day)" },
+  { id: "max_efficiency", label: "Max efficiency" },
+  { id: "least_wear", label: "Least wear" },
+  { id: "spread_load", label: "Spread load" },
+];
+
+// First ranked generator that covers the draw alone, else the fewest generators the product allows
+const combineFewestGenerators: CombinationPolicy = (ranked, required, job, ctx) => {
+  const single = ranked.find((c) => c.available >= required);
+  if (single) return [single];
+  if (!productAllowsCombination(job.product, ctx)) return [];
+  return generatorCombos(ranked, required, maxGeneratorsPerDose(ctx))[0]?.members ?? [];
+};
+
+function generatorCandidate(
+  g: Generator,
+  eluteDt: Date,
+  avail: { available: number; eligible: boolean; reason?: string; deltaSinceLastMin: number },
+  ctx?: PlanningContext
+): GeneratorCandidate {
+  return {
+    gen: g,
+    ...avail,
+    efficiency: effectiveEfficiencyPct(g, eluteDt, ctx),
+    parentAtElute: parentAtTime_mCi(g, eluteDt),
+    wear: g.total_eluted_today_mCi ?? 0,
+  };
+}
+
+// Live planning: every draw respects the minimum lock and moves the generator's last elution
+const strictLockPolicy: LockPolicy = {
+  evaluate: (g, eluteDt, minLockMinutes, ctx) => generatorCandidate(g, eluteDt, availableAtElute_mCi(g, eluteDt, minLockMinutes, ctx), ctx),
+  commit: (g, eluteDt, share) => {
+    g.last_eluted_dt = formatLocal(eluteDt);
+    g.total_eluted_today_mCi = (g.total_eluted_today_mCi ?? 0) + share;
+    g._wearDate = todayLocalDate();
+  },
+};
+
+// Simulation: a generator's first draw may count as fully grown in (and skip the lock);
+// later draws use the stored last elution, which the simulation never moves
+function firstUseLockPolicy(flags: { respectLock: boolean; treatFirstUseMax: boolean; firstUseIgnoresLock?: boolean }): LockPolicy {
+  const usedFirst = new Set<string>();
+  const ignoreLockOnFirst = flags.firstUseIgnoresLock ?? true;
+  return {
+    evaluate: (g, eluteDt, minLockMinutes, ctx) => {
+      const blockedReason = isGeneratorExpired(g, eluteDt) ? "Expired" : breakthroughQcReason(g, eluteDt, ctx);
+      if (blockedReason) return generatorCandidate(g, eluteDt, { available: 0, eligible: false, reason: blockedReason, deltaSinceLastMin: 0 }, ctx);
+
+      const baseline = availableAtElute_mCi(g, eluteDt, flags.respectLock ? minLockMinutes : 0, ctx);
+      let available = baseline.available;
+      let eligible = baseline.eligible || !flags.respectLock;
+      if (flags.treatFirstUseMax && !usedFirst.has(g.id)) {
+        available = parentAtTime_mCi(g, eluteDt) * (effectiveEfficiencyPct(g, eluteDt, ctx) / 100); // MAX at first use
+        eligible = ignoreLockOnFirst ? true : (flags.respectLock ? baseline.eligible : true);
+      }
+      return generatorCandidate(g, eluteDt, { available, eligible, reason: eligible ? undefined : baseline.reason, deltaSinceLastMin: baseline.deltaSinceLastMin }, ctx);
+    },
+    commit: (g, _eluteDt, share) => {
+      usedFirst.add(g.id);
+      g.total_eluted_today_mCi = (g.total_eluted_today_mCi ?? 0) + share; // working copy only, for wear-based ranking
+    },
+  };
+}
+
+/**
+ * One engine for live and simulated greedy assignment: jobs in calibration order, each taking the
+ * strategy's pick at the first workable elution time in its window.
+ */
+function assignOrdersWithStrategy(
+  orders: Order[],
+  generators: Generator[],
+  strategy: AssignmentStrategy,
+  options: { minLockMinutes: number; ctx?: PlanningContext; pinnedIds?: Set<string> }
+): { orders: Order[]; messages: string[] } {
+  const msgs: string[] = [];
+  const sim = strategy.mode === "simulation";
+  const gens = generators.map((g) => ({ ...g }));
+
+  // Elution order, recorded draws included, so each generator's state is the one at that time
+  const jobs = buildDispenseJobs(orders.filter((o) => orderStatus(o) !== "cancelled"), options.ctx, options.pinnedIds)
+    .sort((a, b) => a.eluteDt.getTime() - b.eluteDt.getTime() || a.key.localeCompare(b.key));
+
+  // Recorded draws per generator, so a job placed before one cannot eat into its lock window
+  const pinnedDraws: Record<string, Date[]> = {};
+  for (const job of jobs) {
+    for (const id of job.pinned ? (job.pinned.assignedGeneratorIds ?? []) : []) (pinnedDraws[id] ??= []).push(job.eluteDt);
+  }
+  const nextPinnedConflict = (c: GeneratorCandidate, dt: Date): GeneratorCandidate => {
+    const next = (pinnedDraws[c.gen.id] ?? []).find((p) => p.getTime() >= dt.getTime());
+    if (!c.eligible || !next || minutesBetween(dt, next) >= Math.max(1, options.minLockMinutes)) return c;
+    return { ...c, eligible: false, reason: `Lock: recorded draw at ${formatTimeLocal(next)}` };
+  };
+
+  const resultOrders: Order[] = [];
+  const bookings: ModuleBooking[] = [];
+
+  for (const job of jobs) {
+    if (job.pinned) {
+      const draw = pinnedDraw(job, gens, options.ctx);
+      const shares = contributionShares(draw.avail, draw.required);
+      draw.genIdx.forEach((i, n) => strategy.lock.commit(gens[i], job.eluteDt, shares[n]));
+      if (draw.booking) bookings.push(draw.booking);
+      for (const ord of job.members) {
+        resultOrders.push({ ...ord });
+        msgs.push(`${sim ? "Sim" : "Order"} ${ord.id}: ${isOrderFrozen(ord) ? orderStatus(ord) : "held"}; kept as recorded.`);
+      }
+      continue;
+    }
+
+    let eluteDt = job.eluteDt;
+    let required = job.required;
+    let picked: GeneratorCandidate[] = [];
+    let booking: ModuleBooking | undefined;
+    let blocked: string | undefined;
+    let evaluated = false;
+    let trace: AssignmentTrace | null = null;
+    let tries = 0;
+
+    // Try the nominal elution first, then the rest of the order's window
+    for (const tryDt of eluteWindowCandidates(job)) {
+      tries++;
+      const tryRequired = jobRequiredAtEluteTime_mCi(job.members, tryDt, options.ctx);
+      const slot = productionSlot(job.product, tryDt, bookings, options.ctx);
+      if (slot.blocked) {
+        blocked ??= slot.blocked;
+        trace ??= { ...buildAssignmentTrace(sim ? "simulation" : "greedy", tryDt, tryRequired, [], [], [], tries), outcome: slot.blocked };
+        continue;
+      }
+      const candidates = gens.map((g) => nextPinnedConflict(strategy.lock.evaluate(g, tryDt, options.minLockMinutes, options.ctx), tryDt));
+      const ranked = candidates.filter((c) => c.eligible).sort(strategy.rank);
+      const pick = strategy.combine(ranked, tryRequired, job, options.ctx);
+
+      // Keep the first evaluated attempt for unmet orders, the successful one otherwise
+      const tryTrace = buildAssignmentTrace(sim ? "simulation" : "greedy", tryDt, tryRequired, candidates, ranked, pick.map((c) => c.gen.id), tries);
+      if (!evaluated || pick.length > 0) trace = tryTrace;
+      evaluated = true;
+
+      if (pick.length > 0) {
+        picked = pick;
+        eluteDt = tryDt;
+        required = tryRequired;
+        booking = slot.booking;
+        break;
+      }
+    }
+
+    if (trace) trace.window_tries = tries;
+    const assigned = picked.map((c) => c.gen.id);
+    const note = assigned.length > 1 ? `Combined generators ${assigned.join(" + ")}` : `Single generator ${assigned[0]}`;
+    const shift = Math.round(minutesBetween(job.eluteDt, eluteDt));
+    const shiftNote = shift !== 0 ? `; elute shifted ${shift > 0 ? "+" : ""}${shift} min` : "";
+
+    // The generator is charged once for the whole batch, in proportion to what it contributed
+    const shares = contributionShares(picked.map((c) => c.available), required);
+    picked.forEach((c, n) => strategy.lock.commit(c.gen, eluteDt, shares[n]));
+    if (booking) bookings.push(booking);
+    const moduleNote = booking ? `; module ${booking.moduleId}` : "";
+    const unmetReason = evaluated ? "Insufficient availability" : blocked ?? "Insufficient availability";
+
+    for (const ord of job.members) {
+      const oCopy: Order = { ...ord };
+      oCopy.assigned_elute_dt = formatLocal(eluteDt);
+      oCopy.assignment_trace = trace ?? undefined;
+      oCopy.assigned_module_id = booking?.moduleId;
+      const breakdown = formatRequiredBreakdown(requiredBreakdown(ord, eluteDt, options.ctx));
+
+      if (assigned.length > 0) {
+        oCopy.assignedGeneratorIds = assigned;
+        oCopy.assigned_delta_minutes = picked.map((c) => c.deltaSinceLastMin);
+        oCopy.notes = `${batchNote(job)}${note}; required @ elute ${requiredNote(job, ord, eluteDt, required, options.ctx)}${sim ? " (simulation)" : ""}${shiftNote}${moduleNote}; ${breakdown}`;
+        msgs.push(`${sim ? "Sim" : "Order"} ${ord.id}: assigned ${assigned.join(", ")} at ${oCopy.assigned_elute_dt}`);
+      } else {
+        oCopy.assignedGeneratorIds = [];
+        oCopy.assigned_delta_minutes = [];
+        oCopy.notes = `${batchNote(job)}${sim ? `Unmet (simulation)${evaluated ? "" : `: ${unmetReason}`}.` : `${unmetReason}.`} Required @ elute ${requiredNote(job, ord, eluteDt, required, options.ctx)}; ${breakdown}.`;
+        msgs.push(sim ? `Sim ${ord.id}: unmet${evaluated ? "" : `; ${unmetReason}`}.` : `Order ${ord.id}: unmet; ${evaluated ? "insufficient availability" : unmetReason}.`);
+      }
+
+      resultOrders.push(oCopy);
+    }
+  }
+
+  for (const ord of orders) if (orderStatus(ord) === "cancelled") resultOrders.push(releaseCancelledOrder(ord));
+  return { orders: resultOrders, messages: msgs };
+}
+
+// ---------- Assignment policy ----------
+function assignOrdersEfficient(
+  orders: Order[],
+  generators: Generator[],
+  options: { minLockMinutes: number; ranking?: RankingId; ctx?: PlanningContext; pinnedIds?: Set<string> }
+): { orders: Order[]; messages: string[] } {
+  const strategy: AssignmentStrategy = {
+    mode: "live",
+    rank: RANKING_POLICIES[options.ranking ?? "max_efficiency"],
+    combine: combineFewestGenerators,
+    lock: strictLockPolicy,
+  };
+  return assignOrdersWithStrategy(orders, generators, strategy, options);
+}
+
+// ---------- Optimal assignment (branch-and-bound) ----------
+type SolverOption = { genIdx: number[]; deltas: number[]; avail: number[]; eluteDt: Date; required: number; shiftMin: number; excess: number; booking?: ModuleBooking };
+
+/**
+ * Considers the whole day's orders together: maximizes fulfilled orders, then minimizes
+ * elution-window shifts, then excess activity (available − required). Orders are explored
+ * in nominal elution order so each generator's ingrowth/lock state is exact at every step.
+ */
+function assignOrdersOptimal(
+  orders: Order[],
+  generators: Generator[],
+  options: { minLockMinutes: number; maxNodes?: number; ctx?: PlanningContext; pinnedIds?: Set<string> }
+): { orders: Order[]; messages: string[] } {
+  const msgs: string[] = [];
+  const gens = generators.map((g) => ({ ...g }));
+  const maxNodes = options.maxNodes ?? 50000;
+
+  const jobs = buildDispenseJobs(orders.filter((o) => orderStatus(o) !== "cancelled"), options.ctx, options.pinnedIds)
+    .sort((a, b) => a.eluteDt.getTime() - b.eluteDt.getTime() || a.key.localeCompare(b.key));
+  const bookings: ModuleBooking[] = [];
+
+  // Feasible choices for job k given the generators' current state, best-first
+  function optionsFor(k: number): SolverOption[] {
+    const job = jobs[k];
+    if (job.pinned) {
+      const draw = pinnedDraw(job, gens, options.ctx);
+      return [{ genIdx: draw.genIdx, deltas: draw.deltas, avail: draw.avail, eluteDt: job.eluteDt, required: draw.required, shiftMin: 0, excess: 0, booking: draw.booking }];
+    }
+    const nominalDt = job.eluteDt;
+    const opts: SolverOption[] = [];
+    for (const eluteDt of eluteWindowCandidates(job)) {
+      const slot = productionSlot(job.product, eluteDt, bookings, options.ctx);
+      if (slot.blocked) continue;
+      const booking = slot.booking;
+      const required = jobRequiredAtEluteTime_mCi(job.members, eluteDt, options.ctx);
+      const shiftMin = Math.abs(Math.round(minutesBetween(nominalDt, eluteDt)));
+      const cands = gens
+        .map((g, idx) => ({ idx, ...availableAtElute_mCi(g, eluteDt, options.minLockMinutes, options.ctx) }))
+        .filter((c) => c.eligible);
+      for (const c of cands) {
+        if (c.available >= required) {
+          opts.push({ genIdx: [c.idx], deltas: [c.deltaSinceLastMin], avail: [c.available], eluteDt, required, shiftMin, excess: c.available - required, booking });
+        }
+      }
+      if (productAllowsCombination(job.product, options.ctx)) {
+        for (const combo of generatorCombos(cands, required, maxGeneratorsPerDose(options.ctx))) {
+          opts.push({
+            genIdx: combo.members.map((c) => c.idx),
+            deltas: combo.members.map((c) => c.deltaSinceLastMin),
+            avail: combo.members.map((c) => c.available),
+            eluteDt, required, shiftMin, excess: combo.total - required, booking,
+          });
+        }
+      }
+    }
+    opts.sort((a, b) => a.genIdx.length - b.genIdx.length || a.shiftMin - b.shiftMin || a.excess - b.excess);
+    return opts;
+  }
+
+  const choice: (SolverOption | null)[] = jobs.map(() => null);
+  const best = { fulfilled: -1, shift: Infinity, excess: Infinity, choice: [] as (SolverOption | null)[] };
+  let nodes = 0;
+  let truncated = false;
+
+  function search(k: number, fulfilled: number, shift: number, excess: number) {
+    const bound = fulfilled + (jobs.length - k);
+    if (bound < best.fulfilled) return;
+    if (bound === best.fulfilled && (shift > best.shift || (shift === best.shift && excess >= best.excess))) return;
+    if (k === jobs.length) {
+      best.fulfilled = fulfilled;
+      best.shift = shift;
+      best.excess = excess;
+      best.choice = [...choice];
+      return;
+    }
+    if (++nodes > maxNodes && best.fulfilled >= 0) { truncated = true; return; }
+
+    for (const opt of optionsFor(k)) {
+      const eluteStr = formatLocal(opt.eluteDt);
+      const saved = opt.genIdx.map((i) => gens[i].last_eluted_dt);
+      opt.genIdx.forEach((i) => { gens[i].last_eluted_dt = eluteStr; });
+      if (opt.booking) bookings.push(opt.booking);
+      choice[k] = opt;
+      search(k + 1, fulfilled + 1, shift + opt.shiftMin, excess + opt.excess);
+      if (opt.booking) bookings.pop();
+      opt.genIdx.forEach((i, n) => { gens[i].last_eluted_dt = saved[n]; });
+      if (truncated) break;
+    }
+    choice[k] = null;
+    if (!truncated && !jobs[k].pinned) search(k + 1, fulfilled, shift, excess);
+  }
+
+  search(0, 0, 0, 0);
+  if (truncated) msgs.push(`Optimal search stopped after ${maxNodes} nodes; best plan found is used.`);
+
+  // Bookings of the chosen plan, to tell shift/module conflicts apart from short activity
+  const planBookings = best.choice.flatMap((c) => (c?.booking ? [c.booking] : []));
+
+  const resultById: Record<string, Order> = {};
+  jobs.forEach((job, k) => {
+    const opt = best.choice[k] ?? null;
+    const eluteDt = opt ? opt.eluteDt : job.eluteDt;
+    const required = opt ? opt.required : job.required;
+    const assigned = opt ? opt.genIdx.map((i) => gens[i].id) : [];
+    const note = assigned.length > 1 ? `Combined generators ${assigned.join(" + ")}` : `Single generator ${assigned[0]}`;
+    const shift = Math.round(minutesBetween(job.eluteDt, eluteDt));
+    const shiftNote = shift !== 0 ? `; elute shifted ${shift > 0 ? "+" : ""}${shift} min` : "";
+
+    // Generators and bookings are still in their state before this job, so the trace matches what the search saw;
+    // generators rank in the order the solver's options for this elution first use them
+    const traceCands = gens.map((g) => ({ gen: g, ...availableAtElute_mCi(g, eluteDt, options.minLockMinutes, options.ctx) }));
+    const solverOrder = job.pinned ? [] : optionsFor(k).filter((o) => o.eluteDt.getTime() === eluteDt.getTime()).flatMap((o) => o.genIdx);
+    const ranked = [...new Set(solverOrder)].map((i) => traceCands[i]);
+    const slots = opt ? [] : eluteWindowCandidates(job).map((dt) => productionSlot(job.product, dt, planBookings, options.ctx));
+    const blocked = slots.length > 0 && slots.every((s) => s.blocked) ? slots[0].blocked : undefined;
+    const unmetReason = blocked ?? "Insufficient availability";
+    const trace = buildAssignmentTrace("optimal", eluteDt, required, traceCands, ranked, assigned, eluteWindowCandidates(job).length);
+    if (blocked) trace.outcome = blocked;
+
+    if (opt?.booking) bookings.push(opt.booking);
+    if (opt) {
+      const shares = contributionShares(opt.avail, required);
+      opt.genIdx.forEach((i, n) => {
+        const g = gens[i];
+        g.last_eluted_dt = formatLocal(eluteDt);
+        g.total_eluted_today_mCi = (g.total_eluted_today_mCi ?? 0) + shares[n];
+        g._wearDate = todayLocalDate();
+      });
+    }
+
+    for (const ord of job.members) {
+      if (job.pinned) {
+        resultById[ord.id] = { ...ord };
+        msgs.push(`Order ${ord.id}: ${isOrderFrozen(ord) ? orderStatus(ord) : "held"}; kept as recorded.`);
+        continue;
+      }
+      const oCopy: Order = { ...ord };
+      oCopy.assigned_elute_dt = formatLocal(eluteDt);
+      oCopy.assigned_module_id = opt?.booking?.moduleId;
+      if (opt) {
+        oCopy.assignedGeneratorIds = assigned;
+        oCopy.assigned_delta_minutes = opt.deltas;
+        oCopy.assignment_trace = trace;
+        oCopy.notes = `${batchNote(job)}${note}; required @ elute ${requiredNote(job, ord, eluteDt, required, options.ctx)} (optimal)${shiftNote}${opt.booking ? `; module ${opt.booking.moduleId}` : ""}; ${formatRequiredBreakdown(requiredBreakdown(ord, eluteDt, options.ctx))}`;
+        msgs.push(`Order ${ord.id}: assigned ${assigned.join(", ")} at ${oCopy.assigned_elute_dt}`);
+      } else {
+        oCopy.assignedGeneratorIds = [];
+        oCopy.assigned_delta_minutes = [];
+        oCopy.assignment_trace = trace;
+        oCopy.notes = `${batchNote(job)}${unmetReason}. Required @ elute ${requiredNote(job, ord, eluteDt, required, options.ctx)}; ${formatRequiredBreakdown(requiredBreakdown(ord, eluteDt, options.ctx))}.`;
+        msgs.push(`Order ${ord.id}: unmet; ${blocked ?? "insufficient availability"}.`);
+      }
+      resultById[ord.id] = oCopy;
+    }
+  });
+
+  const resultOrders = [...orders]
+    .sort((a, b) => parseLocalDateTimeYYYYMMDDTHHMM(a.calibration_dt).getTime() - parseLocalDateTimeYYYYMMDDTHHMM(b.calibration_dt).getTime())
+    .map((o) => resultById[o.id] ?? releaseCancelledOrder(o));
+
+  return { orders: resultOrders, messages: msgs };
+}
+
+export function assignOrders(
+  orders: Order[],
+  generators: Generator[],
+  options: { minLockMinutes: number; strategy: AssignmentStrategyId; ctx?: PlanningContext; pinnedIds?: Set<string> }
+): { orders: Order[]; messages: string[] } {
+  return options.strategy === "optimal"
+    ? assignOrdersOptimal(orders, generators, { minLockMinutes: options.minLockMinutes, ctx: options.ctx, pinnedIds: options.pinnedIds })
+    : assignOrdersEfficient(orders, generators, { minLockMinutes: options.minLockMinutes, ranking: options.strategy, ctx: options.ctx, pinnedIds: options.pinnedIds });
+}
+
+// ---------- Rescan diff ----------
+type RescanChange = {
+  orderId: string;
+  hospitalId: string;
+  kind: "new" | "removed" | "moved";
+  generators_before: string[];
+  generators_after: string[];
+  elute_before?: string;
+  elute_after?: string;
+  newly_unmet: boolean; // had generators (or is new) and would end up with none
+};
+
+// A reassignment held back for the technologist to accept or reject
+export type PendingRescan = {
+  title: string;
+  trial: Order[]; // orders as they would be stored, before reassignment
+  newOrder?: Order; // the order being saved, for "commit only the new order"
+  removeId?: string; // the order being deleted
+  promotedFromId?: string; // the Future Vault order that newOrder replaces
+  successMsg: string;
+  rejectMsg?: string; // when something was already saved before the review
+
+  changes: RescanChange[];
+  result: Order[];
+  resultGens: Generator[];
+};
+
+// What a reassignment would change, order by order; orders whose assignment stays put are left out
+export function rescanDiff(before: Order[], after: Order[]): RescanChange[] {
+  const beforeById = Object.fromEntries(before.map((o) => [o.id, o]));
+  const afterIds = new Set(after.map((o) => o.id));
+  const changes: RescanChange[] = [];
+  for (const o of after) {
+    const b = beforeById[o.id];
+    const gensBefore = b?.assignedGeneratorIds ?? [];
+    const gensAfter = o.assignedGeneratorIds ?? [];
+    const moved = !b
+      || [...gensBefore].sort().join("+") !== [...gensAfter].sort().join("+")
+      || (gensAfter.length > 0 && b.assigned_elute_dt !== o.assigned_elute_dt)
+      || b.assigned_module_id !== o.assigned_module_id;
+    if (!moved) continue;
+    changes.push({
+      orderId: o.id,
+      hospitalId: o.hospitalId,
+      kind: b ? "moved" : "new",
+      generators_before: gensBefore,
+      generators_after: gensAfter,
+      elute_before: gensBefore.length > 0 ? b?.assigned_elute_dt : undefined,
+      elute_after: gensAfter.length > 0 ? o.assigned_elute_dt : undefined,
+      newly_unmet: gensAfter.length === 0 && (!b || gensBefore.length > 0),
+    });
+  }
+  for (const b of before) {
+    if (afterIds.has(b.id)) continue;
+    changes.push({
+      orderId: b.id, hospitalId: b.hospitalId, kind: "removed",
+      generators_before: b.assignedGeneratorIds ?? [], generators_after: [],
+      elute_before: b.assigned_elute_dt, newly_unmet: false,
+    });
+  }
+  return changes;
+}
+
+// ---------- Incremental insertion ----------
+export type IncrementalInsertion = {
+  orders: Order[];
+  moved: string[]; // existing orders whose generators, elution or module changed
+  escalation: "spare" | "minimal" | "full" | "unplaced";
+  messages: string[];
+};
+
+/**
+ * Places one order while every other order keeps its generators: spare capacity first, then releasing
+ * the fewest movable orders (nearest elutions first), and the whole day only as a last resort.
+ * A placement counts only if no order that had generators loses them.
+ */
+export function insertOrderIncrementally(
+  orders: Order[],
+  newOrderId: string,
+  generators: Generator[],
+  options: { minLockMinutes: number; strategy: AssignmentStrategyId; ctx?: PlanningContext; maxReleased?: number; maxCandidates?: number }
+): IncrementalInsertion {
+  const newOrder = orders.find((o) => o.id === newOrderId);
+  const others = orders.filter((o) => o.id !== newOrderId);
+  const assignedBefore = new Set(others.filter((o) => orderStatus(o) !== "cancelled" && (o.assignedGeneratorIds?.length ?? 0) > 0).map((o) => o.id));
+  const attempt = (pinnedIds?: Set<string>) => {
+    const result = assignOrders(orders, generators, { ...options, pinnedIds });
+    const placed = result.orders.every((o) =>
+      o.id === newOrderId ? (o.assignedGeneratorIds?.length ?? 0) > 0 : !assignedBefore.has(o.id) || (o.assignedGeneratorIds?.length ?? 0) > 0
+    );
+    const moved = rescanDiff(others, result.orders).filter((c) => c.kind === "moved").map((c) => c.orderId);
+    return { ...result, placed, moved };
+  };
+
+  const allIds = others.map((o) => o.id);
+  const spare = attempt(new Set(allIds));
+  if (!newOrder || spare.placed) return { orders: spare.orders, moved: [], escalation: "spare", messages: spare.messages };
+
+  const target = requiredAtElute_mCi(newOrder, options.ctx).eluteDt.getTime();
+  const distance = (o: Order) => Math.abs(orderEluteInfo(o, options.ctx).eluteDt.getTime() - target);
+  const movable = others
+    .filter((o) => assignedBefore.has(o.id) && !isOrderFrozen(o))
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, options.maxCandidates ?? 6)
+    .map((o) => o.id);
+
+  const maxReleased = Math.min(options.maxReleased ?? 2, movable.length);
+  for (let size = 1; size <= maxReleased; size++) {
+    let best: ReturnType<typeof attempt> | null = null;
+    for (const released of subsetsOfSize(movable, size)) {
+      const r = attempt(new Set(allIds.filter((id) => !released.includes(id))));
+      if (r.placed && (!best || r.moved.length < best.moved.length)) best = r;
+    }
+    if (best) return { orders: best.orders, moved: best.moved, escalation: "minimal", messages: best.messages };
+  }
+
+  const full = attempt();
+  if (full.placed) return { orders: full.orders, moved: full.moved, escalation: "full", messages: full.messages };
+  return { orders: spare.orders, moved: [], escalation: "unplaced", messages: spare.messages };
+}
+
+// Index-ordered subsets, so earlier (nearer) items are tried first
+function subsetsOfSize<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const out: T[][] = [];
+  items.forEach((item, i) => {
+    for (const rest of subsetsOfSize(items.slice(i + 1), size - 1)) out.push([item, ...rest]);
+  });
+  return out;
+}
+
+// ---------- Alternatives for infeasible orders ----------
+export type OrderSuggestion = {
+  kind: "time" | "dose" | "generator";
+  label: string;
+  calibration_dt: string;
+  requested_mCi_at_cal: number;
+  cost: number; // 0–1: share of the search window moved, or share of the dose given up
+};
+
+export function orderIsFeasible(
+  candidate: Order,
+  existingOrders: Order[],
+  generators: Generator[],
+  options: { minLockMinutes: number; strategy: AssignmentStrategyId; ctx?: PlanningContext }
+): boolean {
+  const trialOrders = [...existingOrders.filter((o) => o.id !== candidate.id), candidate];
+  const { orders: reassigned } = assignOrders(trialOrders, generators, options);
+  const found = reassigned.find((o) => o.id === candidate.id);
+  return !!found && (found.assignedGeneratorIds?.length ?? 0) > 0;
+}
+
+/**
+ * Nearby calibration times on the same day, the largest dose that fits at the requested time, and
+ * generators whose last elution, had it been earlier, would free up enough activity. Cheapest first.
+ * Each probe runs the full assigner, so the search stops after `maxChecks` probes.
+ */
+export function suggestOrderAlternatives(
+  candidate: Order,
+  existingOrders: Order[],
+  generators: Generator[],
+  options: { minLockMinutes: number; strategy: AssignmentStrategyId; ctx?: PlanningContext; maxShiftMinutes?: number; stepMinutes?: number; maxSuggestions?: number; maxChecks?: number }
+): OrderSuggestion[] {
+  const maxShift = options.maxShiftMinutes ?? 120;
+  const step = options.stepMinutes ?? 15;
+  const unit = candidate.ordered_unit ?? options.ctx?.activityUnit ?? "mCi";
+  const cal = parseLocalDateTimeYYYYMMDDTHHMM(candidate.calibration_dt);
+  if (isNaN(cal.getTime())) return [];
+  let checksLeft = options.maxChecks ?? 40;
+  const feasible = (o: Order, gens: Generator[] = generators) => checksLeft-- > 0 && orderIsFeasible(o, existingOrders, gens, options);
+  const out: OrderSuggestion[] = [];
+
+  // Same dose, moved calibration time; the closest few are enough
+  let timeHits = 0;
+  for (let k = step; k <= maxShift && timeHits < 3; k += step) {
+    for (const sign of [-1, 1]) {
+      const dt = new Date(cal.getTime() + sign * k * 60000);
+      if (dateOnly(dt) !== dateOnly(cal)) continue;
+      if (!feasible({ ...candidate, calibration_dt: formatLocal(dt) })) continue;
+      out.push({ kind: "time", label: `Feasible at ${formatTimeLocal(dt)} (${sign > 0 ? "+" : "−"}${k} min)`, calibration_dt: formatLocal(dt), requested_mCi_at_cal: candidate.requested_mCi_at_cal, cost: k / maxShift });
+      timeHits++;
+    }
+  }
+
+  // Same time, smaller dose: bisect for the largest that still fits, rounded down to the order's unit
+  let lo = 0, hi = candidate.requested_mCi_at_cal;
+  for (let i = 0; i < 8 && checksLeft > 0; i++) {
+    const mid = (lo + hi) / 2;
+    if (feasible({ ...candidate, requested_mCi_at_cal: mid })) lo = mid; else hi = mid;
+  }
+  const digits = ACTIVITY_DIGITS[unit];
+  const dose = unitToMCi(Math.floor(mCiToUnit(lo, unit) * 10 ** digits) / 10 ** digits, unit);
+  if (dose > 0) {
+    out.push({
+      kind: "dose",
+      label: `Feasible at ${formatTimeLocal(cal)} with ${formatActivityWithUnit(dose, unit)}`,
+      calibration_dt: candidate.calibration_dt,
+      requested_mCi_at_cal: dose,
+      cost: 1 - dose / candidate.requested_mCi_at_cal,
+    });
+  }
+
+  // Same order, one generator's previous elution moved earlier
+  for (const g of generators) {
+    const last = g.last_eluted_dt ? parseLocalDateTimeYYYYMMDDTHHMM(g.last_eluted_dt) : null;
+    if (!last || isNaN(last.getTime())) continue;
+    for (let k = step; k <= maxShift && checksLeft > 0; k += step) {
+      const earlier = new Date(last.getTime() - k * 60000);
+      const gens = generators.map((x) => (x.id === g.id ? { ...x, last_eluted_dt: formatLocal(earlier) } : x));
+      if (!feasible(candidate, gens)) continue;
+      out.push({ kind: "generator", label: `Feasible if ${g.id} is eluted ${k} min earlier (by ${formatTimeLocal(earlier)})`, calibration_dt: candidate.calibration_dt, requested_mCi_at_cal: candidate.requested_mCi_at_cal, cost: k / maxShift });
+      break;
+    }
+  }
+
+  return out.sort((a, b) => a.cost - b.cost).slice(0, options.maxSuggestions ?? 6);
+}
+
+// ---------- Availability forecast ----------
+type PlannedDraw = { eluteDt: Date; need_mCi: number };
+
+type AvailabilityForecast = {
+  slots: Date[];
+  columns: { hospitalId: string; name: string; travel_minutes: number }[];
+  cells: (number | null)[][]; // [slot][hospital], mCi deliverable at calibration; null for past slots
+};
+
+// Committed draws per generator in time order, with the share each generator must supply
+function plannedDrawsByGenerator(orders: Order[], generators: Generator[], ctx?: PlanningContext): Record<string, PlannedDraw[]> {
+  const groups: Record<string, Order[]> = {};
+  for (const o of orders) {
+    if (!o.assigned_elute_dt || !(o.assignedGeneratorIds?.length)) continue;
+    const key = `${o.assigned_elute_dt}|${o.assignedGeneratorIds.join("+")}`;
+    (groups[key] ??= []).push(o);
+  }
+  const work: Record<string, Generator> = Object.fromEntries(generators.map((g) => [g.id, { ...g }]));
+  const draws: Record<string, PlannedDraw[]> = Object.fromEntries(generators.map((g) => [g.id, []]));
+
+  const sorted = Object.values(groups).sort((a, b) => a[0].assigned_elute_dt!.localeCompare(b[0].assigned_elute_dt!));
+  for (const members of sorted) {
+    const eluteDt = parseLocalDateTimeYYYYMMDDTHHMM(members[0].assigned_elute_dt!);
+    const ids = members[0].assignedGeneratorIds!.filter((id) => work[id]);
+    const required = jobRequiredAtEluteTime_mCi(members, eluteDt, ctx);
+    const shares = contributionShares(ids.map((id) => availableAtElute_mCi(work[id], eluteDt, 0, ctx).available), required);
+    ids.forEach((id, n) => {
+      draws[id].push({ eluteDt, need_mCi: shares[n] });
+      if (eluteDt > parseLocalDateTimeYYYYMMDDTHHMM(work[id].last_eluted_dt)) work[id].last_eluted_dt = formatLocal(eluteDt);
+    });
+  }
+  return draws;
+}
+
+/**
+ * Activity one generator could give at `eluteDt` on top of its committed draws: the lock must be
+ * clear of the draws either side, and the next draw must still get its share afterwards.
+ */
+function extraCapacityAt_mCi(gen: Generator, draws: PlannedDraw[], eluteDt: Date, minLockMinutes: number, ctx?: PlanningContext): number {
+  const logged = parseLocalDateTimeYYYYMMDDTHHMM(gen.last_eluted_dt);
+  const prev = [...draws].reverse().find((d) => d.eluteDt <= eluteDt && !(d.eluteDt <= logged));
+  const next = draws.find((d) => d.eluteDt > eluteDt && !(d.eluteDt <= logged));
+  const now = availableAtElute_mCi(prev ? { ...gen, last_eluted_dt: formatLocal(prev.eluteDt) } : gen, eluteDt, minLockMinutes, ctx);
+  if (!now.eligible) return 0;
+  if (next) {
+    if (minutesBetween(eluteDt, next.eluteDt) < minLockMinutes) return 0;
+    const after = availableAtElute_mCi({ ...gen, last_eluted_dt: formatLocal(eluteDt) }, next.eluteDt, 0, ctx).available;
+    if (after < next.need_mCi) return 0;
+  }
+  return now.available;
+}
+
+// Largest extra dose of `productCode` each hospital could still be promised, per calibration slot
+export function availabilityForecast(
+  day: string,
+  orders: Order[],
+  generators: Generator[],
+  hospitals: Hospital[],
+  productCode: string,
+  options: { minLockMinutes: number; ctx?: PlanningContext; startHour?: number; endHour?: number; slotMinutes?: number; now?: Date }
+): AvailabilityForecast {
+  const start = parseLocalDateTimeYYYYMMDDTHHMM(`${day}T${pad2(options.startHour ?? 6)}:00`);
+  const end = parseLocalDateTimeYYYYMMDDTHHMM(`${day}T${pad2(options.endHour ?? 18)}:00`);
+  const step = options.slotMinutes ?? 15;
+  const now = options.now ?? new Date();
+  const product = productFor(productCode, options.ctx);
+  const combine = productAllowsCombination(productCode, options.ctx);
+  const maxGens = maxGeneratorsPerDose(options.ctx);
+  const dayOrders = orders.filter((o) => localDateStringFromISO(o.calibration_dt) === day);
+  const draws = plannedDrawsByGenerator(dayOrders, generators, options.ctx);
+  const bookings = bookingsFromOrders(dayOrders, options.ctx);
+
+  const slots: Date[] = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += step * 60000) slots.push(new Date(t));
+  const columns = hospitals.map((h) => ({ hospitalId: h.id, name: h.name, travel_minutes: h.travel_minutes }));
+
+  const cells = slots.map((cal) =>
+    hospitals.map((h) => {
+      const prep = product?.default_prep_minutes ?? 15;
+      const eluteDt = new Date(cal.getTime() - (prep + (h.travel_minutes ?? 0)) * 60000);
+      if (eluteDt < now) return null;
+      if (productionSlot(productCode, eluteDt, bookings, options.ctx).blocked) return 0;
+      const probe: Order = { id: "forecast", hospitalId: h.id, product: productCode, requested_mCi_at_cal: 1, calibration_dt: formatLocal(cal), prep_minutes: prep, travel_minutes: h.travel_minutes ?? 0 };
+      const perDose = requiredAtEluteTime_mCi(probe, eluteDt, options.ctx); // mCi at elution per mCi delivered
+      const caps = generators.map((g) => extraCapacityAt_mCi(g, draws[g.id] ?? [], eluteDt, options.minLockMinutes, options.ctx)).sort((a, b) => b - a);
+      const total = combine ? caps.slice(0, maxGens).reduce((s, c) => s + c, 0) : (caps[0] ?? 0);
+      return perDose > 0 ? total / perDose : 0;
+    })
+  );
+  return { slots, columns, cells };
+}
+
+// ---------- Multi-day planning ----------
+type FlushElution = { generatorId: string; elute_dt: string; eluted_mCi: number };
+
+export type PlannedDay = {
+  day: string;
+  orders: Order[];
+  unmet: Order[];
+  flushes: FlushElution[];
+  generators: Generator[]; // state at the end of the day, carried into the next
+};
+
+// Flush every generator whose lock has cleared by `hhmm`; the eluate counts toward the day's wear
+function applyFlushElutions(gens: Generator[], day: string, hhmm: string, minLockMinutes: number, ctx?: PlanningContext): { gens: Generator[]; flushes: FlushElution[] } {
+  const at = parseLocalDateTimeYYYYMMDDTHHMM(`${day}T${hhmm}`);
+  if (isNaN(at.getTime())) return { gens, flushes: [] };
+  const flushes: FlushElution[] = [];
+  const out = gens.map((g) => {
+    const a = availableAtElute_mCi(g, at, minLockMinutes, ctx);
+    if (!a.eligible) return g;
+    flushes.push({ generatorId: g.id, elute_dt: formatLocal(at), eluted_mCi: a.available });
+    return { ...g, last_eluted_dt: formatLocal(at), total_eluted_today_mCi: (g.total_eluted_today_mCi ?? 0) + a.available, _wearDate: day };
+  });
+  return { gens: out, flushes };
+}
+
+/**
+ * Steps through `days` in order: morning flush, the day's orders, evening flush. Each day starts
+ * from the generators' simulated last elution and wear at the end of the previous one; parent
+ * decay follows from the calendar date itself.
+ */
+export function planMultiDay(
+  orders: Order[],
+  generators: Generator[],
+  days: string[],
+  options: { minLockMinutes: number; strategy: AssignmentStrategyId; morningFlush?: string; eveningFlush?: string; ctx?: PlanningContext }
+): PlannedDay[] {
+  let state = generators.map((g) => ({ ...g }));
+  const out: PlannedDay[] = [];
+
+  for (const day of days) {
+    let gens = normalizeDailyWear(state, day);
+    const flushes: FlushElution[] = [];
+    if (options.morningFlush) {
+      const r = applyFlushElutions(gens, day, options.morningFlush, options.minLockMinutes, options.ctx);
+      gens = r.gens;
+      flushes.push(...r.flushes);
+    }
+
+    const dayOrders = orders.filter((o) => localDateStringFromISO(o.calibration_dt) === day);
+    const { orders: assigned } = assignOrders(dayOrders, gens, { minLockMinutes: options.minLockMinutes, strategy: options.strategy, ctx: options.ctx });
+
+    // Carry the day's draws into the generators: last elution and wear by contribution
+    const draws = plannedDrawsByGenerator(assigned, gens, options.ctx);
+    gens = gens.map((g) => {
+      const mine = draws[g.id] ?? [];
+      if (mine.length === 0) return g;
+      const lastDraw = mine[mine.length - 1].eluteDt;
+      const last = parseLocalDateTimeYYYYMMDDTHHMM(g.last_eluted_dt);
+      return {
+        ...g,
+        last_eluted_dt: isNaN(last.getTime()) || lastDraw > last ? formatLocal(lastDraw) : g.last_eluted_dt,
+        total_eluted_today_mCi: (g.total_eluted_today_mCi ?? 0) + mine.reduce((s, d) => s + d.need_mCi, 0),
+        _wearDate: day,
+      };
+    });
+
+    if (options.eveningFlush) {
+      const r = applyFlushElutions(gens, day, options.eveningFlush, options.minLockMinutes, options.ctx);
+      gens = r.gens;
+      flushes.push(...r.flushes);
+    }
+
+    out.push({ day, orders: assigned, unmet: assigned.filter((o) => !(o.assignedGeneratorIds?.length)), flushes, generators: gens });
+    state = gens;
+  }
+  return out;
+}
+
+// ---------- Facility calendar ----------
+type FacilityCalendar = {
+  weekdays: number[]; // regular operating days, 0 = Sunday
+  open_time: string; // "HH:MM"
+  close_time: string;
+  exceptions: Record<string, FacilityDay>;
+};
+
+export function facilityCalendarFrom(settings: AppSettings, days: FacilityDay[]): FacilityCalendar {
+  return {
+    weekdays: settings.operating_weekdays,
+    open_time: settings.operating_open_time,
+    close_time: settings.operating_close_time,
+    exceptions: Object.fromEntries(days.map((d) => [d.id, d])),
+  };
+}
+
+// The day's status: an exception wins over the weekly pattern
+export function facilityHours(cal: FacilityCalendar | undefined, day: string): { open: boolean; open_time: string; close_time: string; note?: string } {
+  if (!cal) return { open: true, open_time: "00:00", close_time: "23:59" };
+  const ex = cal.exceptions[day];
+  if (ex) return { open: ex.kind === "open", open_time: ex.open_time || cal.open_time, close_time: ex.close_time || cal.close_time, note: ex.note };
+  return { open: cal.weekdays.includes(parseLocalDateYYYYMMDD(day).getDay()), open_time: cal.open_time, close_time: cal.close_time };
+}
+
+export function isFacilityOpen(cal: FacilityCalendar | undefined, day: string): boolean {
+  return facilityHours(cal, day).open;
+}
+
+// Why an order cannot be produced as placed: closed that day, or eluting outside operating hours
+export function facilityIssue(cal: FacilityCalendar | undefined, order: Order): string | null {
+  if (!cal) return null;
+  const day = localDateStringFromISO(order.calibration_dt);
+  const hours = facilityHours(cal, day);
+  if (!hours.open) return `Facility closed on ${day}${hours.note ? ` (${hours.note})` : ""}`;
+  return shiftReason(cal, requiredAtElute_mCi(order).eluteDt);
+}
+
+// ---------- Synthesis modules and shift hours ----------
+type ModuleBooking = { moduleId: string; start: number; end: number }; // epoch ms, synthesis start to end
+
+export function synthesisMinutes(m: SynthesisModule, product: string, ctx?: PlanningContext): number {
+  return m.synthesis_minutes[product] ?? productFor(product, ctx)?.default_prep_minutes ?? 15;
+}
+
+// Elutions happen only on open days, within the shift, and the synthesis must finish by closing
+function shiftReason(cal: FacilityCalendar | undefined, eluteDt: Date, synthesisMin = 0): string | null {
+  if (!cal) return null;
+  const day = dateOnly(eluteDt);
+  const hours = facilityHours(cal, day);
+  if (!hours.open) return `Facility closed on ${day}${hours.note ? ` (${hours.note})` : ""}`;
+  const t = formatTimeLocal(eluteDt);
+  if (t < hours.open_time || t > hours.close_time) return `Elution at ${t} is outside operating hours (${hours.open_time}–${hours.close_time})`;
+  const end = new Date(eluteDt.getTime() + synthesisMin * 60000);
+  if (dateOnly(end) !== day || formatTimeLocal(end) > hours.close_time) return `Synthesis from ${t} runs past closing (${hours.close_time})`;
+  return null;
+}
+
+/**
+ * Whether a synthesis can start at `eluteDt`: inside the shift for its whole synthesis time and,
+ * when modules are configured, on the first active module idle for that time.
+ */
+function productionSlot(product: string, eluteDt: Date, bookings: ModuleBooking[], ctx?: PlanningContext): { booking?: ModuleBooking; blocked?: string } {
+  const modules = (ctx?.modules ?? []).filter((m) => m.active);
+  if (modules.length === 0) {
+    const shift = shiftReason(ctx?.calendar, eluteDt, productFor(product, ctx)?.default_prep_minutes ?? 15);
+    return shift ? { blocked: shift } : {};
+  }
+  const start = eluteDt.getTime();
+  let blocked = "No synthesis module free";
+  for (const m of modules) {
+    const minutes = synthesisMinutes(m, product, ctx);
+    const shift = shiftReason(ctx?.calendar, eluteDt, minutes);
+    if (shift) { blocked = shift; continue; }
+    const end = start + minutes * 60000;
+    if (!bookings.some((b) => b.moduleId === m.id && b.start < end && start < b.end)) return { booking: { moduleId: m.id, start, end } };
+  }
+  return { blocked };
+}
+
+// Module time already taken by assigned orders, one booking per batch
+function bookingsFromOrders(orders: Order[], ctx?: PlanningContext): ModuleBooking[] {
+  const byKey: Record<string, ModuleBooking> = {};
+  for (const o of orders) {
+    const m = ctx?.modules?.find((x) => x.id === o.assigned_module_id);
+    if (!m || !o.assigned_elute_dt) continue;
+    const start = parseLocalDateTimeYYYYMMDDTHHMM(o.assigned_elute_dt).getTime();
+    byKey[`${m.id}|${start}`] = { moduleId: m.id, start, end: start + synthesisMinutes(m, o.product, ctx) * 60000 };
+  }
+  return Object.values(byKey);
+}
+
+// ---------- Delivery runs ----------
+type RouteStop = { orderId: string; hospitalId: string; arrival: Date; calibration: Date; slack_min: number };
+type RoutedRun = { run: DeliveryRun; departure: Date; stops: RouteStop[]; warnings: string[] };
+
+// Minutes between two hospitals from the matrix, either direction; null when nobody entered it
+export function travelBetween(a: Hospital | undefined, b: Hospital | undefined): number | null {
+  if (!a || !b) return null;
+  if (a.id === b.id) return 0;
+  return a.travel_between?.[b.id] ?? b.travel_between?.[a.id] ?? null;
+}
+
+/**
+ * Arrival at each stop from the lab through the matrix legs. Without a fixed departure the run
+ * leaves as late as it can while still making every calibration.
+ */
+export function routeDeliveryRun(run: DeliveryRun, ordersById: Record<string, Order>, hospitalsById: Record<string, Hospital>): RoutedRun {
+  const warnings: string[] = [];
+  const legs: { order: Order; offset: number }[] = [];
+  let offset = 0;
+  let prev: Hospital | undefined;
+  for (const id of run.stop_order_ids) {
+    const order = ordersById[id];
+    if (!order) { warnings.push(`Order ${shortId(id)} no longer exists.`); continue; }
+    const h = hospitalsById[order.hospitalId];
+    if (!prev) {
+      offset += h?.travel_minutes ?? 0;
+    } else {
+      const leg = travelBetween(prev, h);
+      if (leg == null) warnings.push(`No travel time from ${prev.name} to ${h?.name ?? order.hospitalId}; using its direct travel time.`);
+      offset += leg ?? h?.travel_minutes ?? 0;
+    }
+    legs.push({ order, offset });
+    prev = h;
+  }
+
+  const fixed = run.departure_dt ? parseLocalDateTimeYYYYMMDDTHHMM(run.departure_dt) : null;
+  const latest = legs.length > 0
+    ? new Date(Math.min(...legs.map((l) => parseLocalDateTimeYYYYMMDDTHHMM(l.order.calibration_dt).getTime() - l.offset * 60000)))
+    : parseLocalDateTimeYYYYMMDDTHHMM(`${run.date}T08:00`);
+  const departure = fixed && !isNaN(fixed.getTime()) ? fixed : latest;
+
+  const stops = legs.map(({ order, offset: off }) => {
+    const arrival = new Date(departure.getTime() + off * 60000);
+    const calibration = parseLocalDateTimeYYYYMMDDTHHMM(order.calibration_dt);
+    const slack = Math.round(minutesBetween(arrival, calibration));
+    if (slack < 0) warnings.push(`${hospitalsById[order.hospitalId]?.name ?? order.hospitalId} (${shortId(order.id)}) arrives ${-slack} min after calibration.`);
+    return { orderId: order.id, hospitalId: order.hospitalId, arrival, calibration, slack_min: slack };
+  });
+  return { run, departure, stops, warnings };
+}
+
+/**
+ * Orders whose travel must change for the runs: routed doses leave at the run's departure, so
+ * their travel is departure → calibration; doses taken off a run go back to the hospital's own.
+ */
+export function applyRunsToOrders(orders: Order[], runs: DeliveryRun[], hospitals: Hospital[], allOrders: Order[] = orders): Order[] {
+  const ordersById = Object.fromEntries(allOrders.map((o) => [o.id, o]));
+  const hospitalsById = Object.fromEntries(hospitals.map((h) => [h.id, h]));
+  const routed: Record<string, { runId: string; travel: number }> = {};
+  for (const run of runs) {
+    const r = routeDeliveryRun(run, ordersById, hospitalsById);
+    for (const s of r.stops) routed[s.orderId] = { runId: run.id, travel: Math.max(0, Math.round(minutesBetween(r.departure, s.calibration))) };
+  }
+  const changed: Order[] = [];
+  for (const o of orders) {
+    const r = routed[o.id];
+    if (r && (o.delivery_run_id !== r.runId || o.travel_minutes !== r.travel)) {
+      changed.push({ ...o, delivery_run_id: r.runId, travel_minutes: r.travel });
+    } else if (!r && o.delivery_run_id) {
+      changed.push({ ...o, delivery_run_id: undefined, travel_minutes: hospitalsById[o.hospitalId]?.travel_minutes ?? o.travel_minutes });
+    }
+  }
+  return changed;
+}
+
+// ---------- Recurring orders ----------
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Dates in [from, to] the template falls on; week parity counts from the start date's week
+export function recurrenceDates(t: RecurringOrder, from: string, to: string): string[] {
+  const first = t.start_date > from ? t.start_date : from;
+  const last = t.end_date && t.end_date < to ? t.end_date : to;
+  const anchor = parseLocalDateYYYYMMDD(startOfWeekMonday(t.start_date)).getTime();
+  const out: string[] = [];
+  for (let d = first; d <= last; d = addDays(d, 1)) {
+    if (!t.weekdays.includes(parseLocalDateYYYYMMDD(d).getDay())) continue;
+    const weeks = Math.round((parseLocalDateYYYYMMDD(startOfWeekMonday(d)).getTime() - anchor) / (7 * 24 * 60 * 60 * 1000));
+    if (weeks % Math.max(1, t.every_n_weeks) !== 0) continue;
+    if (t.skip_dates.includes(d)) continue;
+    out.push(d);
+  }
+  return out;
+}
+
+export function describeRecurrence(t: RecurringOrder): string {
+  const days = [...t.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map((d) => WEEKDAY_LABELS[d]).join(", ");
+  const every = t.every_n_weeks > 1 ? `every ${t.every_n_weeks} weeks` : "weekly";
+  const skips = t.skip_dates.length > 0 ? `; skips ${t.skip_dates.join(", ")}` : "";
+  return `${days} at ${t.calibration_time}, ${every} from ${t.start_date}${t.end_date ? ` until ${t.end_date}` : ""}${skips}`;
+}
+
+// Travel and elute window come from the hospital as it is when the occurrence is created
+function occurrenceFromTemplate(t: RecurringOrder, day: string, hospital?: Hospital): Order {
+  return {
+    id: `${t.id}-${day.replace(/-/g, "")}`,
+    hospitalId: t.hospitalId,
+    product: t.product,
+    requested_mCi_at_cal: t.requested_mCi_at_cal,
+    ordered_amount: t.ordered_amount,
+    ordered_unit: t.ordered_unit,
+    calibration_dt: `${day}T${t.calibration_time}`,
+    prep_minutes: t.prep_minutes,
+    travel_minutes: hospital?.travel_minutes ?? 0,
+    elute_window_early_min: hospital?.elute_window_early_min,
+    elute_window_late_min: hospital?.elute_window_late_min,
+    recurring_id: t.id,
+  };
+}
+
+// "templateId|YYYY-MM-DD" for every occurrence already in the vault or promoted to live
+export function takenOccurrences(orders: Order[]): Set<string> {
+  return new Set(orders.filter((o) => o.recurring_id).map((o) => `${o.recurring_id}|${localDateStringFromISO(o.calibration_dt)}`));
+}
+
+/**
+ * Materializes each template from the day after it was last materialized up to the horizon.
+ * Dates already covered are not revisited, so occurrences deleted from the vault stay deleted.
+ * Days the facility is closed are kept on the template instead and filled in once they reopen.
+ */
+export function topUpRecurring(
+  templates: RecurringOrder[],
+  hospitals: Hospital[],
+  today: string,
+  horizonDays: number,
+  taken: Set<string>,
+  calendar?: FacilityCalendar
+): { orders: Order[]; templates: RecurringOrder[] } {
+  const to = addDays(today, Math.max(1, Math.floor(horizonDays)) - 1);
+  const orders: Order[] = [];
+  const updated: RecurringOrder[] = [];
+  for (const t of templates) {
+    const next = t.materialized_through ? addDays(t.materialized_through, 1) : today;
+    const from = next > today ? next : today;
+    const hospital = hospitals.find((h) => h.id === t.hospitalId);
+    const retry = (t.closed_dates ?? []).filter((d) => d >= today);
+    const days = from > to ? retry : [...retry, ...recurrenceDates(t, from, to)];
+    const closed: string[] = [];
+    for (const day of days) {
+      if (!isFacilityOpen(calendar, day)) closed.push(day);
+      else if (!taken.has(`${t.id}|${day}`)) orders.push(occurrenceFromTemplate(t, day, hospital));
+    }
+    updated.push({ ...t, materialized_through: from > to ? t.materialized_through : to, closed_dates: closed.length > 0 ? closed : undefined });
+  }
+  return { orders, templates: updated };
+}
+
+// ---------- Simulation assignment ----------
+export function assignOrdersEfficientSim(
+  orders: Order[],
+  generators: Generator[],
+  options: { minLockMinutes: number; respectLock: boolean; treatFirstUseMax: boolean; firstUseIgnoresLock?: boolean; ranking?: RankingId; ctx?: PlanningContext }
+): { orders: Order[]; messages: string[] } {
+  const strategy: AssignmentStrategy = {
+    mode: "simulation",
+    rank: RANKING_POLICIES[options.ranking ?? "max_efficiency"],
+    combine: combineFewestGenerators,
+    lock: firstUseLockPolicy(options),
+  };
+  return assignOrdersWithStrategy(orders, generators, strategy, options);
+}
+
+// ---------- Export bundle ----------
+export type BundleData = {
+  generators: Generator[];
+  hospitals: Hospital[];
+  orders: Order[];
+  future_orders: Order[];
+  generator_models: GeneratorModel[];
+  elution_log: ElutionLogEntry[];
+  breakthrough_tests: BreakthroughTest[];
+  products: Product[];
+  recurring_orders: RecurringOrder[];
+  facility_calendar: FacilityDay[];
+  synthesis_modules: SynthesisModule[];
+  delivery_runs: DeliveryRun[];
+  settings: AppSettings;
+};
+
+export type BundleMeta = { exportedAt: string; minLockMinutes: number; activityUnit: ActivityUnit; timeZone: string };
+
+// The JSON written by "Export bundle"; importBundle reads the same keys back
+export function bundleJson(data: BundleData, meta: BundleMeta): string {
+  return JSON.stringify({ ...data, meta }, null, 2);
+}
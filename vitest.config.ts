@@ -0,0 +1,7 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests are plain TypeScript; an inline PostCSS config skips the app's Tailwind setup
+export default defineConfig({
+  css: { postcss: {} },
+  test: { include: ['src/**/*.test.ts'] },
+});